@@ -0,0 +1,111 @@
+import { VirtualEditor } from "../src/VirtualEditor";
+import { IVirtualEditorAction } from "../src/types/ExtendedEditorActions";
+import { afterAll, describe, expect } from "@jest/globals";
+// the last published release before the piece table, which kept an array of lines and copied it after every step
+import { VirtualEditor as PublishedVirtualEditor } from "codevideo-virtual-editor-1.7.1";
+
+/**
+ * How long the virtual editor and the published virtual editor took for a benchmark, in milliseconds.
+ */
+interface IBenchmarkResult {
+  name: string;
+  virtualEditorMs: number;
+  publishedMs: number;
+}
+
+// runs a benchmark once to warm up, then returns the fastest of a few runs in milliseconds
+const measure = (run: () => void, runs: number = 3): number => {
+  run();
+  let fastest = Infinity;
+  for (let i = 0; i < runs; i++) {
+    const start = performance.now();
+    run();
+    fastest = Math.min(fastest, performance.now() - start);
+  }
+  return fastest;
+};
+
+// a large file of typical code lines
+const createLargeFile = (lineCount: number): Array<string> =>
+  Array.from({ length: lineCount }, (_, row) => `  const value${row} = computeSomething(${row}, "some text"); // comment`);
+
+// a script moving through a file and editing it, with only actions the published virtual editor knows
+const createEditingActions = (actionCount: number, lineCount: number): Array<IVirtualEditorAction> => {
+  const actions: Array<IVirtualEditorAction> = [];
+  for (let i = 0; actions.length < actionCount; i++) {
+    const rowsToMove = ((i * 37) % 20) + 1;
+    actions.push(
+      { name: i % 2 === 0 || i * 2 >= lineCount ? "editor-arrow-up" : "editor-arrow-down", value: rowsToMove.toString() },
+      { name: "editor-arrow-right", value: "4" },
+      { name: "editor-type", value: "foo" },
+      { name: "editor-enter", value: "1" },
+      { name: "editor-backspace", value: "4" }
+    );
+  }
+  return actions.slice(0, actionCount);
+};
+
+describe("Virtual Editor Benchmarks", () => {
+  const results: Array<IBenchmarkResult> = [];
+
+  // times the virtual editor and the published virtual editor on the same run, which must end with the same code - the times are only reported, as they depend on the machine and how busy it is
+  const compare = (name: string, run: (createEditor: (codeLines: Array<string>) => VirtualEditor | PublishedVirtualEditor) => string) => {
+    const codes: Array<string> = [];
+    const virtualEditorMs = measure(() => {
+      codes[0] = run((codeLines) => new VirtualEditor(codeLines.slice()));
+    });
+    const publishedMs = measure(() => {
+      codes[1] = run((codeLines) => new PublishedVirtualEditor(codeLines.slice()));
+    });
+    expect(codes[0]).toEqual(codes[1]);
+    results.push({ name, virtualEditorMs, publishedMs });
+  };
+
+  afterAll(() => {
+    const lines = results.map(
+      ({ name, virtualEditorMs, publishedMs }) =>
+        `${name}\n  VirtualEditor: ${virtualEditorMs.toFixed(1)} ms\n  1.7.1:         ${publishedMs.toFixed(1)} ms (${(publishedMs / virtualEditorMs).toFixed(1)}x)`
+    );
+    process.stdout.write(`\n${lines.join("\n")}\n\n`);
+  });
+
+  it("replays 5000 actions on a 2000 line file", () => {
+    const file = createLargeFile(2000);
+    const actions = createEditingActions(5000, 2000);
+    compare("5000 actions on a 2000 line file", (createEditor) => {
+      const virtualEditor = createEditor(file);
+      return virtualEditor.applyActions(actions);
+    });
+  });
+
+  it("gets the code after each of 5000 actions on a 2000 line file", () => {
+    const file = createLargeFile(2000);
+    const actions = createEditingActions(5000, 2000);
+    compare("the code after each of 5000 actions on a 2000 line file", (createEditor) => {
+      const virtualEditor = createEditor(file);
+      virtualEditor.applyActions(actions);
+      return virtualEditor.getCodeAfterEachStep()[actions.length];
+    });
+  });
+
+  it("replays 800 actions on a 20000 line file", () => {
+    const file = createLargeFile(20000);
+    const actions = createEditingActions(800, 20000);
+    compare("800 actions on a 20000 line file", (createEditor) => {
+      const virtualEditor = createEditor(file);
+      return virtualEditor.applyActions(actions);
+    });
+  });
+
+  it("types into a single very long line, like a minified file", () => {
+    const file = ["var a=1;".repeat(125000)];
+    const actions: Array<IVirtualEditorAction> = [];
+    for (let i = 0; i < 500; i++) {
+      actions.push({ name: "editor-arrow-right", value: "300" }, { name: "editor-type", value: "b" });
+    }
+    compare("1000 actions on a single 1000000 character line", (createEditor) => {
+      const virtualEditor = createEditor(file);
+      return virtualEditor.applyActions(actions);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect } from "@jest/globals";
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { exportAsciinemaCast } from "../../src/utils/exportAsciinemaCast";
+
+const clearScreen = "\u001b[H\u001b[2J";
+const lineNumber = (text: string) => `\u001b[2m${text}\u001b[22m `;
+const reversed = (text: string) => `\u001b[7m${text}\u001b[27m`;
+
+describe("exportAsciinemaCast", () => {
+  describe("Asciinema Cast Examples", () => {
+    it("draws every step with line numbers, the highlight in reverse video and the cursor at the caret, timed by the keystroke model", () => {
+      const virtualEditor = new VirtualEditor(["let a = 1;", "let b = 2;"], [
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-shift+arrow-left", value: "2" },
+        { name: "editor-type", value: "42;" },
+        { name: "author-speak-after", value: "Done." },
+      ]);
+      const cast = exportAsciinemaCast(virtualEditor, { width: 30, height: 5, title: "Lesson" });
+      const lines = cast.split("\n");
+      expect(lines[lines.length - 1]).toEqual("");
+      expect(JSON.parse(lines[0])).toEqual({ version: 2, width: 30, height: 5, title: "Lesson" });
+
+      const secondLine = `\r\n${lineNumber("2")}let b = 2;`;
+      expect(lines.slice(1, -1).map((line) => JSON.parse(line))).toEqual([
+        [0, "o", `${clearScreen}${lineNumber("1")}let a = 1;${secondLine}\u001b[1;3H`],
+        [0.1, "o", `${clearScreen}${lineNumber("1")}let a = 1;${secondLine}\u001b[1;13H`],
+        [0.3, "o", `${clearScreen}${lineNumber("1")}let a = ${reversed("1;")}${secondLine}\u001b[1;11H`],
+        [0.6, "o", `${clearScreen}${lineNumber("1")}let a = 42;${secondLine}\u001b[1;14H`],
+        // the speech changes nothing, but keeps the length of the cast
+        [1, "o", `${clearScreen}${lineNumber("1")}let a = 42;${secondLine}\u001b[1;14H`],
+      ]);
+
+      const slowerCast = exportAsciinemaCast(virtualEditor, { millisecondsPerKeystroke: 200, wordsPerMinute: 60 });
+      expect(slowerCast.split("\n").slice(1, -1).map((line) => JSON.parse(line)[0])).toEqual([0, 0.2, 0.6, 1.2, 2.2]);
+    });
+
+    it("scrolls along with the caret, expands tabs and cuts off long lines", () => {
+      const codeLines = Array.from({ length: 12 }, (_, index) => `line ${index + 1}`);
+      const virtualEditor = new VirtualEditor(codeLines, [
+        { name: "editor-arrow-down", value: "5" },
+        { name: "editor-shift+arrow-down", value: "1" },
+      ]);
+      const frames = exportAsciinemaCast(virtualEditor, { height: 3 })
+        .split("\n")
+        .slice(1, -1)
+        .map((line) => JSON.parse(line)[2]);
+      expect(frames[1]).toEqual(
+        `${clearScreen}${lineNumber(" 4")}line 4\r\n${lineNumber(" 5")}line 5\r\n${lineNumber(" 6")}line 6\u001b[3;4H`
+      );
+      // the highlight includes the line break at the end of line 6
+      expect(frames[2]).toEqual(
+        `${clearScreen}${lineNumber(" 5")}line 5\r\n${lineNumber(" 6")}${reversed("line 6 ")}\r\n${lineNumber(" 7")}line 7\u001b[3;4H`
+      );
+
+      const tabbedVirtualEditor = new VirtualEditor(["\tconsole.log('a long line');"], [{ name: "editor-command-right", value: "1" }]);
+      const tabbedFrames = exportAsciinemaCast(tabbedVirtualEditor, { width: 14 })
+        .split("\n")
+        .slice(1, -1)
+        .map((line) => JSON.parse(line)[2]);
+      expect(tabbedFrames).toEqual([
+        `${clearScreen}${lineNumber("1")}    console.\u001b[1;3H`,
+        `${clearScreen}${lineNumber("1")}    console.\u001b[1;14H`,
+      ]);
+    });
+  });
+});
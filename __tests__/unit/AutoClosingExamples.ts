@@ -0,0 +1,113 @@
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { describe, expect } from "@jest/globals";
+
+describe("VirtualEditor", () => {
+  describe("Auto Closing Examples", () => {
+    it("closes brackets and quotes and types over the auto closed characters", () => {
+      const virtualEditor = new VirtualEditor([], [], false, {
+        autoClosingBrackets: "always",
+        autoClosingQuotes: "always",
+      });
+      virtualEditor.applyAction({ name: "editor-type", value: "console.log(" });
+      expect(virtualEditor.getCode()).toEqual("console.log()");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 13 });
+
+      virtualEditor.applyAction({ name: "editor-type", value: "'hi');" });
+      expect(virtualEditor.getCode()).toEqual("console.log('hi');");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 19 });
+    });
+
+    it("does not close a quote typed right after a word", () => {
+      const virtualEditor = new VirtualEditor([], [], false, { autoClosingQuotes: "always" });
+      virtualEditor.applyAction({ name: "editor-type", value: "don't `x" });
+      expect(virtualEditor.getCode()).toEqual("don't `x`");
+    });
+
+    it("only closes before whitespace with beforeWhitespace", () => {
+      const virtualEditor = new VirtualEditor(["value"], [], false, {
+        autoClosingBrackets: "beforeWhitespace",
+        autoClosingQuotes: "beforeWhitespace",
+      });
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "(" },
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-type", value: " [" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("(value []");
+    });
+
+    it("only types over closing characters that were auto closed unless overtype is always", () => {
+      const virtualEditor = new VirtualEditor(["()"], [], false, { autoClosingBrackets: "always" });
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "1" },
+        { name: "editor-type", value: ")" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("())");
+
+      const overtypingEditor = new VirtualEditor(["()"], [], false, { autoClosingOvertype: "always" });
+      overtypingEditor.applyActions([
+        { name: "editor-arrow-right", value: "1" },
+        { name: "editor-type", value: ")" },
+      ]);
+      expect(overtypingEditor.getCode()).toEqual("()");
+      expect(overtypingEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 3 });
+    });
+
+    it("deletes both characters of an empty auto closed pair with backspace", () => {
+      const virtualEditor = new VirtualEditor([], [], false, {
+        autoClosingBrackets: "always",
+        autoClosingQuotes: "always",
+      });
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "foo([\"" },
+        { name: "editor-backspace", value: "2" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("foo()");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 5 });
+
+      // a pair which was already there is only deleted along with the opening character with autoClosingDelete 'always'
+      const existingPairEditor = new VirtualEditor(["[]"], [], false, { autoClosingBrackets: "always" });
+      existingPairEditor.applyActions([
+        { name: "editor-arrow-right", value: "1" },
+        { name: "editor-backspace", value: "1" },
+      ]);
+      expect(existingPairEditor.getCode()).toEqual("]");
+
+      const alwaysDeletingEditor = new VirtualEditor(["[]"], [], false, { autoClosingDelete: "always" });
+      alwaysDeletingEditor.applyActions([
+        { name: "editor-arrow-right", value: "1" },
+        { name: "editor-backspace", value: "1" },
+      ]);
+      expect(alwaysDeletingEditor.getCode()).toEqual("");
+    });
+
+    it("surrounds the highlighted text and keeps it highlighted", () => {
+      const virtualEditor = new VirtualEditor(["const name = Ada;"], [], false, { autoSurround: "quotes" });
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "13" },
+        { name: "editor-shift+arrow-right", value: "3" },
+        { name: "editor-type", value: "'" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("const name = 'Ada';");
+      expect(virtualEditor.getCurrentHighlightedCode()).toEqual("Ada");
+
+      // brackets are not surrounding with 'quotes', so they replace the highlight
+      virtualEditor.applyAction({ name: "editor-type", value: "(" });
+      expect(virtualEditor.getCode()).toEqual("const name = '(';");
+    });
+
+    it("surrounds a backwards highlight across lines", () => {
+      const virtualEditor = new VirtualEditor(["a", "b"], [], false, { autoSurround: "always" });
+      virtualEditor.applyActions([
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-shift+arrow-up", value: "1" },
+        { name: "editor-shift+arrow-left", value: "1" },
+        { name: "editor-type", value: "{" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("{a\nb}");
+      expect(virtualEditor.getCurrentHighlightedCode()).toEqual("a\nb");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 2 });
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { describe, expect } from "@jest/globals";
+
+describe("VirtualEditor", () => {
+  describe("Auto Indent Examples", () => {
+    it("indents one level deeper after an opening bracket", () => {
+      const virtualEditor = new VirtualEditor([], [], false, { autoIndent: "brackets", insertSpaces: true, tabSize: 2 });
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "const config = {" },
+        { name: "editor-enter", value: "1" },
+        { name: "editor-type", value: "items: [" },
+        { name: "editor-enter", value: "1" },
+        { name: "editor-type", value: "1," },
+        { name: "editor-enter", value: "1" },
+        { name: "editor-type", value: "2" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("const config = {\n  items: [\n    1,\n    2");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 4, col: 6 });
+    });
+
+    it("puts the closing bracket on its own line when enter is pressed between a pair of brackets", () => {
+      const virtualEditor = new VirtualEditor(["  function main() {}"], [], false, { autoIndent: "brackets" });
+      virtualEditor.applyActions([
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-arrow-left", value: "1" },
+        { name: "editor-enter", value: "1" },
+      ]);
+      expect(virtualEditor.getCodeLines()).toEqual(["  function main() {", "  \t", "  }"]);
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 2, col: 4 });
+
+      virtualEditor.applyAction({ name: "editor-type", value: "return;" });
+      expect(virtualEditor.getCode()).toEqual("  function main() {\n  \treturn;\n  }");
+    });
+
+    it("combines with auto closing brackets to type a block naturally", () => {
+      const virtualEditor = new VirtualEditor([], [], false, {
+        autoIndent: "brackets",
+        autoClosingBrackets: "always",
+        insertSpaces: true,
+      });
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "if (ready) {" },
+        { name: "editor-enter", value: "1" },
+        { name: "editor-type", value: "start();" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("if (ready) {\n    start();\n}");
+    });
+
+    it("indents after a trailing colon for python", () => {
+      const virtualEditor = new VirtualEditor([], [], false, { autoIndent: "brackets", language: "python", insertSpaces: true });
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "def main():" },
+        { name: "editor-enter", value: "1" },
+        { name: "editor-type", value: "print('hi')" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("def main():\n    print('hi')");
+    });
+
+    it("does not indent after a colon for languages that don't use it", () => {
+      const virtualEditor = new VirtualEditor([], [], false, { autoIndent: "brackets", language: "typescript" });
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "label:" },
+        { name: "editor-enter", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("label:\n");
+    });
+
+    it("uses the configured increaseIndentAfter characters over the language", () => {
+      const virtualEditor = new VirtualEditor([], [], false, {
+        autoIndent: "brackets",
+        language: "python",
+        increaseIndentAfter: ["{"],
+      });
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "while True:" },
+        { name: "editor-enter", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("while True:\n");
+    });
+
+    it("trims the auto indentation when enter is pressed again on an empty line", () => {
+      const virtualEditor = new VirtualEditor([], [], false, { autoIndent: "brackets" });
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "items = [" },
+        { name: "editor-enter", value: "2" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("items = [\n\n\t");
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect } from "@jest/globals";
+import { IAction } from "@fullstackcraftllc/codevideo-types";
+import { exportSrtCaptions, exportWebVttCaptions, getSpeechCaptionCues } from "../../src/utils/exportCaptions";
+import { getActionTimings } from "../../src/utils/getActionTimings";
+
+const actions: Array<IAction> = [
+  { name: "author-speak-before", value: "Let's log something." },
+  { name: "editor-type", value: "hi;" },
+  { name: "author-speak-after", value: "That logs hi." },
+  { name: "author-wait", value: "500" },
+  { name: "author-speak-during", value: "Now we move down twice." },
+  { name: "editor-arrow-down", value: "2" },
+  { name: "editor-enter", value: "1" },
+  { name: "author-speak-after", value: "Done & <dusted>.\n\nBye." },
+];
+
+describe("exportCaptions", () => {
+  describe("Caption Export Examples", () => {
+    it("times speech by its words and editor actions by their keystrokes, speaking during the actions after author-speak-during", () => {
+      expect(getActionTimings(actions).map(({ startMilliseconds, endMilliseconds }) => [startMilliseconds, endMilliseconds])).toEqual([
+        [0, 1200],
+        [1200, 1500],
+        [1500, 2700],
+        [2700, 3200],
+        [3200, 5200],
+        [3200, 3400],
+        [3400, 3500],
+        [5200, 6800],
+      ]);
+
+      const timings = getActionTimings(
+        [
+          { name: "editor-type", value: "a😀" },
+          { name: "editor-backspace", value: "3" },
+          { name: "editor-save", value: "1" },
+          { name: "terminal-type", value: "npm test" },
+          { name: "author-speak-before", value: "   " },
+          { name: "editor-save", value: "" },
+          { name: "editor-command-c", value: "" },
+        ],
+        { millisecondsPerKeystroke: 50 }
+      );
+      expect(timings.map(({ endMilliseconds }) => endMilliseconds)).toEqual([100, 250, 300, 300, 300, 350, 400]);
+    });
+
+    it("rounds the times of a fractional pace to whole milliseconds", () => {
+      const fractionalPace = { millisecondsPerKeystroke: 83.3 };
+      expect(getActionTimings(actions, fractionalPace).map(({ startMilliseconds, endMilliseconds }) => [startMilliseconds, endMilliseconds])).toEqual([
+        [0, 1200],
+        [1200, 1450],
+        [1450, 2650],
+        [2650, 3150],
+        [3150, 5150],
+        [3150, 3317],
+        [3317, 3400],
+        [5150, 6750],
+      ]);
+      expect(exportSrtCaptions(actions, fractionalPace).split("\n")[5]).toEqual("00:00:01,450 --> 00:00:02,650");
+      expect(exportWebVttCaptions(actions, fractionalPace)).toContain("00:00:03.150 --> 00:00:05.150");
+    });
+
+    it("exports the speech captions as SRT and WebVTT", () => {
+      expect(getSpeechCaptionCues(actions).map((cue) => cue.actionIndex)).toEqual([0, 2, 4, 7]);
+      expect(exportSrtCaptions(actions)).toEqual(
+        [
+          "1",
+          "00:00:00,000 --> 00:00:01,200",
+          "Let's log something.",
+          "",
+          "2",
+          "00:00:01,500 --> 00:00:02,700",
+          "That logs hi.",
+          "",
+          "3",
+          "00:00:03,200 --> 00:00:05,200",
+          "Now we move down twice.",
+          "",
+          "4",
+          "00:00:05,200 --> 00:00:06,800",
+          "Done & <dusted>.",
+          "Bye.",
+          "",
+        ].join("\n")
+      );
+      expect(exportWebVttCaptions(actions)).toEqual(
+        [
+          "WEBVTT",
+          "",
+          "00:00:00.000 --> 00:00:01.200",
+          "Let's log something.",
+          "",
+          "00:00:01.500 --> 00:00:02.700",
+          "That logs hi.",
+          "",
+          "00:00:03.200 --> 00:00:05.200",
+          "Now we move down twice.",
+          "",
+          "00:00:05.200 --> 00:00:06.800",
+          "Done &amp; &lt;dusted&gt;.",
+          "Bye.",
+          "",
+        ].join("\n")
+      );
+
+      const longLesson: Array<IAction> = [
+        { name: "author-wait", value: "3723004" },
+        { name: "author-speak-after", value: "Finally." },
+      ];
+      expect(exportSrtCaptions(longLesson, { wordsPerMinute: 60 })).toEqual("1\n01:02:03,004 --> 01:02:04,004\nFinally.\n");
+      expect(exportWebVttCaptions([])).toEqual("WEBVTT\n");
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { VirtualClipboard } from "../../src/VirtualClipboard";
+import { describe, expect } from "@jest/globals";
+
+describe("VirtualEditor", () => {
+  describe("Clipboard Examples", () => {
+    it("copies the highlighted text and pastes it at the caret", () => {
+      const virtualEditor = new VirtualEditor(["const a = 1;"]);
+      virtualEditor.applyActions([
+        { name: "editor-shift+arrow-right", value: "12" },
+        { name: "editor-copy", value: "" },
+      ]);
+      // copying keeps the highlight
+      expect(virtualEditor.getCurrentHighlightedCode()).toEqual("const a = 1;");
+      expect(virtualEditor.getClipboard().getText()).toEqual("const a = 1;");
+
+      virtualEditor.applyActions([
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-enter", value: "1" },
+        { name: "editor-paste", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("const a = 1;\nconst a = 1;");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 2, col: 13 });
+    });
+
+    it("cuts the highlighted text the same way backspace deletes it", () => {
+      const virtualEditor = new VirtualEditor(["first line", "second line"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "6" },
+        { name: "editor-shift+arrow-down", value: "1" },
+        { name: "editor-cut", value: "" },
+      ]);
+      expect(virtualEditor.getClipboard().getText()).toEqual("line\nsecond");
+      expect(virtualEditor.getCode()).toEqual("first  line");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 7 });
+      expect(virtualEditor.getCurrentHighlightCoordinates()).toEqual(null);
+    });
+
+    it("replaces the highlighted text when pasting", () => {
+      const virtualEditor = new VirtualEditor(["foo(bar)"]);
+      virtualEditor.getClipboard().setText("baz");
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "4" },
+        { name: "editor-shift+arrow-right", value: "3" },
+        { name: "editor-paste", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("foo(baz)");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 8 });
+    });
+
+    it("copies and pastes the whole line above the current line when nothing is highlighted", () => {
+      const virtualEditor = new VirtualEditor(["one", "two"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "2" },
+        { name: "editor-copy", value: "" },
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-paste", value: "2" },
+      ]);
+      expect(virtualEditor.getClipboard().getIsWholeLine()).toEqual(true);
+      expect(virtualEditor.getCode()).toEqual("one\none\none\ntwo");
+      // the caret stays on its original line at the same column
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 4, col: 3 });
+    });
+
+    it("cuts the whole line when nothing is highlighted", () => {
+      const virtualEditor = new VirtualEditor(["one", "two", "three"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-cut", value: "" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("one\nthree");
+      expect(virtualEditor.getClipboard().getText()).toEqual("two\n");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 2, col: 1 });
+
+      // cutting the last line moves the caret up
+      virtualEditor.applyActions([{ name: "editor-cut", value: "" }]);
+      expect(virtualEditor.getCode()).toEqual("one");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 1 });
+    });
+
+    it("shares a clipboard between multiple editors", () => {
+      const clipboard = new VirtualClipboard();
+      const sourceEditor = new VirtualEditor(["export const shared = true;"]);
+      const targetEditor = new VirtualEditor([]);
+      sourceEditor.setClipboard(clipboard);
+      targetEditor.setClipboard(clipboard);
+
+      sourceEditor.applyActions([
+        { name: "editor-shift+arrow-right", value: "27" },
+        { name: "editor-command-c", value: "1" },
+      ]);
+      targetEditor.applyActions([{ name: "editor-command-v", value: "1" }]);
+      expect(targetEditor.getCode()).toEqual("export const shared = true;");
+    });
+
+    it("marks the editor as unsaved after a cut or paste", () => {
+      const virtualEditor = new VirtualEditor(["text"]);
+      virtualEditor.applyActions([
+        { name: "editor-save", value: "" },
+        { name: "editor-copy", value: "" },
+      ]);
+      expect(virtualEditor.getIsSaved()).toEqual(true);
+      virtualEditor.applyActions([{ name: "editor-paste", value: "1" }]);
+      expect(virtualEditor.getIsSaved()).toEqual(false);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { CodeLinesHistory } from "../../src/CodeLinesHistory";
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { describe, expect } from "@jest/globals";
+import { IVirtualEditorAction } from "../../src/types/ExtendedEditorActions";
+
+describe("CodeLinesHistory", () => {
+  describe("Code Lines History Examples", () => {
+    it("returns the code lines of every step from deltas and keyframes", () => {
+      const steps = [
+        ["a"],
+        ["a", "b"],
+        ["x", "a", "b"],
+        ["x", "b"],
+        [],
+        ["c", "c", "c"],
+        ["c", "d", "c"],
+        ["c", "d", "c"],
+      ];
+      // a small keyframe interval so that steps are rebuilt from keyframes and deltas
+      const codeLinesHistory = new CodeLinesHistory(3);
+      steps.forEach((codeLines) => codeLinesHistory.push(codeLines));
+
+      expect(codeLinesHistory.getLength()).toEqual(steps.length);
+      expect(codeLinesHistory.toArray()).toEqual(steps);
+      // looking up steps out of order gives the same results as in order
+      [7, 2, 5, 0, 6, 4, 1, 3].forEach((index) => {
+        expect(codeLinesHistory.get(index)).toEqual(steps[index]);
+      });
+    });
+
+    it("does not keep the pushed or returned code lines", () => {
+      const codeLines = ["one"];
+      const codeLinesHistory = new CodeLinesHistory();
+      codeLinesHistory.push(codeLines);
+      codeLines.push("two");
+      codeLinesHistory.get(0).push("three");
+      expect(codeLinesHistory.get(0)).toEqual(["one"]);
+    });
+
+    it("restores an identical history from its deltas and keyframes", () => {
+      const steps = [["a"], ["a", "b"], ["x", "b"], ["x", "b", "c"], ["c"]];
+      const codeLinesHistory = new CodeLinesHistory(2);
+      steps.forEach((codeLines) => codeLinesHistory.push(codeLines));
+      const snapshot = codeLinesHistory.toSnapshot();
+      expect(snapshot.keyframes).toEqual([["a"], ["x", "b"], ["c"]]);
+      expect(snapshot.deltas[3]).toEqual({ startRow: 2, deletedCount: 0, insertedLines: ["c"] });
+
+      const restoredHistory = CodeLinesHistory.fromSnapshot(snapshot);
+      expect(restoredHistory.toArray()).toEqual(steps);
+      restoredHistory.push(["c", "d"]);
+      expect(restoredHistory.get(5)).toEqual(["c", "d"]);
+      // the snapshot shares nothing with either history
+      expect(codeLinesHistory.getLength()).toEqual(5);
+      expect(snapshot.deltas.length).toEqual(5);
+    });
+
+    it("throws for steps outside of the history", () => {
+      const codeLinesHistory = new CodeLinesHistory();
+      codeLinesHistory.push(["only"]);
+      expect(() => codeLinesHistory.get(1)).toThrow("Action index out of bounds");
+      expect(() => codeLinesHistory.get(-1)).toThrow("Action index out of bounds");
+    });
+
+    it("keeps the history of a long editing session", () => {
+      const initialCodeLines = Array.from({ length: 2000 }, (_, index) => `const line${index} = ${index};`);
+      const virtualEditor = new VirtualEditor(initialCodeLines.slice());
+      for (let i = 0; i < 500; i++) {
+        virtualEditor.applyActions([
+          { name: "editor-arrow-down", value: "3" },
+          { name: "editor-command-left", value: "1" },
+          { name: "editor-type", value: "// " },
+        ]);
+      }
+
+      expect(virtualEditor.getCodeAtActionIndex(0)).toEqual(initialCodeLines.join("\n"));
+      expect(virtualEditor.getCodeLinesAtActionIndex(3)[3]).toEqual("// const line3 = 3;");
+      expect(virtualEditor.getCodeLinesAtActionIndex(1500)[1500]).toEqual("// const line1500 = 1500;");
+      expect(virtualEditor.getCodeLinesAtActionIndex(1499)[1500]).toEqual("const line1500 = 1500;");
+      expect(virtualEditor.getCodeAfterEachStep()[1500]).toEqual(virtualEditor.getCode());
+    });
+
+    it("records the lines changed by every kind of edit", () => {
+      const initialCodeLines = ["function test() {", "  const a = 1;", "  const b = 2;", "}"];
+      const actions: Array<IVirtualEditorAction> = [
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-add-cursor-below", value: "1" },
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-enter", value: "1" },
+        { name: "editor-type", value: "log();" },
+        { name: "editor-escape", value: "1" },
+        { name: "editor-move-line-up", value: "2" },
+        { name: "editor-copy-line-down", value: "1" },
+        { name: "editor-undo", value: "2" },
+        { name: "editor-redo", value: "1" },
+        { name: "editor-cut", value: "" },
+        { name: "editor-paste", value: "3" },
+        { name: "editor-shift+arrow-down", value: "2" },
+        { name: "editor-backspace", value: "1" },
+      ];
+      const virtualEditor = new VirtualEditor(initialCodeLines, actions);
+
+      // every step holds the code of replaying the actions up to it
+      const codeAfterEachStep = virtualEditor.getCodeAfterEachStep();
+      actions.forEach((_, index) => {
+        expect(codeAfterEachStep[index + 1]).toEqual(new VirtualEditor(initialCodeLines, actions.slice(0, index + 1)).getCode());
+      });
+    });
+  });
+});
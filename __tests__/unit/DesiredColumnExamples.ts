@@ -0,0 +1,69 @@
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { describe, expect } from "@jest/globals";
+
+describe("VirtualEditor", () => {
+  describe("Desired Column Examples", () => {
+    const codeLines = [
+      "function example() {",
+      "",
+      "  return 'a long line';",
+      "}",
+    ];
+
+    it("remembers the desired column when moving through shorter lines", () => {
+      const virtualEditor = new VirtualEditor(codeLines.slice());
+      virtualEditor.applyAction({ name: "editor-arrow-right", value: "15" });
+      virtualEditor.applyAction({ name: "editor-arrow-down", value: "1" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 2, col: 1 });
+      virtualEditor.applyAction({ name: "editor-arrow-down", value: "1" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 3, col: 16 });
+      virtualEditor.applyAction({ name: "editor-arrow-down", value: "1" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 4, col: 2 });
+      virtualEditor.applyAction({ name: "editor-arrow-up", value: "3" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 16 });
+    });
+
+    it("types at the clamped column instead of past the end of the line", () => {
+      const virtualEditor = new VirtualEditor(codeLines.slice());
+      virtualEditor.applyActions([
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-arrow-down", value: "3" },
+        { name: "editor-type", value: " // end" },
+      ]);
+      expect(virtualEditor.getCodeLines()[3]).toEqual("} // end");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 4, col: 9 });
+    });
+
+    it("forgets the desired column after a horizontal move or an edit", () => {
+      const virtualEditor = new VirtualEditor(codeLines.slice());
+      virtualEditor.applyActions([
+        { name: "editor-arrow-down", value: "2" },
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-arrow-left", value: "1" },
+        { name: "editor-arrow-up", value: "1" },
+      ]);
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 3, col: 1 });
+
+      virtualEditor.applyActions([
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-type", value: "!" },
+        { name: "editor-arrow-up", value: "1" },
+      ]);
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 3, col: 3 });
+    });
+
+    it("applies the desired column to shift+arrow highlights", () => {
+      const virtualEditor = new VirtualEditor(codeLines.slice());
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "8" },
+        { name: "editor-shift+arrow-down", value: "1" },
+      ]);
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 2, col: 1 });
+      virtualEditor.applyAction({ name: "editor-shift+arrow-down", value: "1" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 3, col: 9 });
+      expect(virtualEditor.getCurrentHighlightedCode()).toEqual(" example() {\n\n  return");
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { describe, expect } from "@jest/globals";
+
+describe("VirtualEditor", () => {
+  describe("Diff Examples", () => {
+    it("gets the characters changed by a single step", () => {
+      const virtualEditor = new VirtualEditor(["const a = 1;", "const b = 2;"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "10" },
+        { name: "editor-shift+arrow-right", value: "1" },
+        { name: "editor-type", value: "42" },
+      ]);
+
+      // moving the caret changes nothing
+      expect(virtualEditor.getDiffAtActionIndex(1)).toEqual({ changes: [], unifiedDiff: "" });
+
+      const diff = virtualEditor.getDiffAtActionIndex(3);
+      expect(diff.changes).toEqual([
+        {
+          kind: "modified",
+          oldStartRow: 1,
+          oldLineCount: 1,
+          newStartRow: 1,
+          newLineCount: 1,
+          oldLines: ["const a = 1;"],
+          newLines: ["const a = 42;"],
+          deletedRange: { start: { row: 1, col: 11 }, end: { row: 1, col: 12 } },
+          insertedRange: { start: { row: 1, col: 11 }, end: { row: 1, col: 13 } },
+        },
+      ]);
+      expect(diff.unifiedDiff).toEqual(
+        ["--- action 2", "+++ action 3", "@@ -1,2 +1,2 @@", "-const a = 1;", "+const a = 42;", " const b = 2;", ""].join("\n")
+      );
+    });
+
+    it("gets the inserted, deleted and modified lines between two steps", () => {
+      const initialCodeLines = ["import a from 'a';", "import b from 'b';", "", "a();", "b();", "", "", "", "", "export {};"];
+      const virtualEditor = new VirtualEditor(initialCodeLines);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-shift+arrow-down", value: "1" },
+        { name: "editor-backspace", value: "1" },
+        { name: "editor-arrow-down", value: "2" },
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-type", value: "\nc();" },
+        { name: "editor-arrow-down", value: "5" },
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-arrow-left", value: "2" },
+        { name: "editor-type", value: " a " },
+      ]);
+
+      const diff = virtualEditor.getDiffBetween(0, 10);
+      const rows = diff.changes.map(({ kind, oldStartRow, oldLineCount, newStartRow, newLineCount }) => [
+        kind,
+        oldStartRow,
+        oldLineCount,
+        newStartRow,
+        newLineCount,
+      ]);
+      expect(rows).toEqual([
+        ["deleted", 2, 1, 2, 0],
+        ["inserted", 6, 0, 5, 1],
+        ["modified", 10, 1, 10, 1],
+      ]);
+      expect(diff.changes[0].deletedRange).toEqual({ start: { row: 2, col: 1 }, end: { row: 2, col: 19 } });
+      expect(diff.changes[1].insertedRange).toEqual({ start: { row: 5, col: 1 }, end: { row: 5, col: 5 } });
+      expect(diff.changes[2].deletedRange).toBeNull();
+      expect(diff.changes[2].insertedRange).toEqual({ start: { row: 10, col: 9 }, end: { row: 10, col: 12 } });
+      expect(diff.unifiedDiff).toEqual(
+        [
+          "--- action 0",
+          "+++ action 10",
+          "@@ -1,10 +1,10 @@",
+          " import a from 'a';",
+          "-import b from 'b';",
+          " ",
+          " a();",
+          " b();",
+          "+c();",
+          " ",
+          " ",
+          " ",
+          " ",
+          "-export {};",
+          "+export { a };",
+          "",
+        ].join("\n")
+      );
+
+      // the other way around, the inserted lines are deleted
+      expect(virtualEditor.getDiffBetween(10, 0).changes.map((change) => change.kind)).toEqual(["inserted", "deleted", "modified"]);
+    });
+
+    it("gets the initial code as inserted lines for the first step", () => {
+      const virtualEditor = new VirtualEditor(["first", "second"]);
+      const diff = virtualEditor.getDiffAtActionIndex(0);
+      expect(diff.changes).toEqual([
+        {
+          kind: "inserted",
+          oldStartRow: 1,
+          oldLineCount: 0,
+          newStartRow: 1,
+          newLineCount: 2,
+          oldLines: [],
+          newLines: ["first", "second"],
+          deletedRange: null,
+          insertedRange: { start: { row: 1, col: 1 }, end: { row: 2, col: 7 } },
+        },
+      ]);
+      expect(diff.unifiedDiff).toEqual("--- empty\n+++ action 0\n@@ -0,0 +1,2 @@\n+first\n+second\n");
+      expect(() => virtualEditor.getDiffAtActionIndex(1)).toThrow("Action index out of bounds");
+    });
+  });
+});
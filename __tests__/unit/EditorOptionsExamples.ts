@@ -0,0 +1,135 @@
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { DefaultVirtualEditorOptions } from "../../src/types/IVirtualEditorOptions";
+import { describe, expect } from "@jest/globals";
+
+describe("VirtualEditor", () => {
+  describe("Editor Options Examples", () => {
+    it("uses the default options when none are provided", () => {
+      const virtualEditor = new VirtualEditor([]);
+      expect(virtualEditor.getOptions()).toEqual(DefaultVirtualEditorOptions);
+    });
+
+    it("merges provided options with the defaults", () => {
+      const virtualEditor = new VirtualEditor([], [], false, { tabSize: 2 });
+      expect(virtualEditor.getOptions().tabSize).toEqual(2);
+      expect(virtualEditor.getOptions().insertSpaces).toEqual(false);
+
+      virtualEditor.setOptions({ insertSpaces: true });
+      expect(virtualEditor.getOptions().tabSize).toEqual(2);
+      expect(virtualEditor.getOptions().insertSpaces).toEqual(true);
+    });
+
+    it("applies the options to the actions passed to the constructor", () => {
+      const virtualEditor = new VirtualEditor(
+        [],
+        [{ name: "editor-tab", value: "1" }],
+        false,
+        { insertSpaces: true, tabSize: 2 }
+      );
+      expect(virtualEditor.getCode()).toEqual("  ");
+    });
+
+    it("inserts spaces up to the next tab stop when insertSpaces is enabled", () => {
+      const virtualEditor = new VirtualEditor([], [], false, { insertSpaces: true, tabSize: 4 });
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "ab" },
+        { name: "editor-tab", value: "1" },
+        { name: "editor-type", value: "c" },
+        { name: "editor-tab", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("ab  c   ");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 9 });
+    });
+
+    it("indents and outdents highlighted lines by tabSize spaces when insertSpaces is enabled", () => {
+      const virtualEditor = new VirtualEditor(["a", "b"], [], false, { insertSpaces: true, tabSize: 2 });
+      virtualEditor.applyActions([
+        { name: "editor-shift+arrow-down", value: "1" },
+        { name: "editor-shift+arrow-right", value: "1" },
+        { name: "editor-tab", value: "2" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("    a\n    b");
+      virtualEditor.applyAction({ name: "editor-shift+tab", value: "1" });
+      expect(virtualEditor.getCode()).toEqual("  a\n  b");
+    });
+
+    it("returns the code with CRLF line endings when eol is CRLF", () => {
+      const virtualEditor = new VirtualEditor([], [], false, { eol: "CRLF" });
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "first\r\nsecond" },
+        { name: "editor-enter", value: "1" },
+        { name: "editor-type", value: "third" },
+      ]);
+      expect(virtualEditor.getCodeLines()).toEqual(["first", "second", "third"]);
+      expect(virtualEditor.getCode()).toEqual("first\r\nsecond\r\nthird");
+      expect(virtualEditor.getCodeAtActionIndex(1)).toEqual("first\r\nsecond");
+    });
+
+    it("keeps the indentation of the current line on enter when autoIndent is keep", () => {
+      const virtualEditor = new VirtualEditor([], [], false, { autoIndent: "keep" });
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "    const a = 1;" },
+        { name: "editor-enter", value: "1" },
+        { name: "editor-type", value: "const b = 2;" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("    const a = 1;\n    const b = 2;");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 2, col: 17 });
+    });
+
+    it("trims auto inserted whitespace from lines which are left empty", () => {
+      const virtualEditor = new VirtualEditor([], [], false, { autoIndent: "keep" });
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "\tfirst" },
+        { name: "editor-enter", value: "2" },
+        { name: "editor-type", value: "second" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("\tfirst\n\n\tsecond");
+
+      virtualEditor.applyActions([
+        { name: "editor-enter", value: "1" },
+        { name: "editor-arrow-up", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("\tfirst\n\n\tsecond\n");
+    });
+
+    it("keeps auto inserted whitespace when trimAutoWhitespace is disabled", () => {
+      const virtualEditor = new VirtualEditor([], [], false, { autoIndent: "keep", trimAutoWhitespace: false });
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "  first" },
+        { name: "editor-enter", value: "2" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("  first\n  \n  ");
+    });
+
+    it("auto closes brackets and types over them when autoClosingBrackets is enabled", () => {
+      const virtualEditor = new VirtualEditor([], [], false, { autoClosingBrackets: "always" });
+      virtualEditor.applyAction({ name: "editor-type", value: "console.log(" });
+      expect(virtualEditor.getCode()).toEqual("console.log()");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 13 });
+
+      virtualEditor.applyAction({ name: "editor-type", value: "[1, 2])" });
+      expect(virtualEditor.getCode()).toEqual("console.log([1, 2])");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 20 });
+    });
+
+    it("only auto closes brackets before whitespace when autoClosingBrackets is beforeWhitespace", () => {
+      const virtualEditor = new VirtualEditor(["value"], [], false, { autoClosingBrackets: "beforeWhitespace" });
+      virtualEditor.applyAction({ name: "editor-type", value: "(" });
+      expect(virtualEditor.getCode()).toEqual("(value");
+      virtualEditor.applyActions([
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-type", value: "(" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("(value()");
+    });
+
+    it("does not type over closing brackets that were not auto closed", () => {
+      const virtualEditor = new VirtualEditor(["()"], [], false, { autoClosingBrackets: "always" });
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "1" },
+        { name: "editor-type", value: ")" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("())");
+    });
+  });
+});
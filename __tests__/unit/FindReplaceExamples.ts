@@ -0,0 +1,121 @@
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { describe, expect } from "@jest/globals";
+
+describe("VirtualEditor", () => {
+  describe("Find and Replace Examples", () => {
+    const code = ["const total = 1;", "const subtotal = total + 1;", "console.log(Total);"];
+
+    it("finds every match and highlights the nearest one", () => {
+      const virtualEditor = new VirtualEditor(code.slice());
+      virtualEditor.applyActions([
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-find", value: "total" },
+      ]);
+      const findWidgetState = virtualEditor.getFindWidgetState();
+      expect(findWidgetState.isOpen).toEqual(true);
+      expect(findWidgetState.matches).toEqual([
+        { start: { row: 1, col: 7 }, end: { row: 1, col: 12 } },
+        { start: { row: 2, col: 10 }, end: { row: 2, col: 15 } },
+        { start: { row: 2, col: 18 }, end: { row: 2, col: 23 } },
+        { start: { row: 3, col: 13 }, end: { row: 3, col: 18 } },
+      ]);
+      expect(findWidgetState.activeMatchIndex).toEqual(1);
+      expect(virtualEditor.getCurrentHighlightCoordinates()).toEqual({
+        start: { row: 2, col: 10 },
+        end: { row: 2, col: 15 },
+      });
+    });
+
+    it("moves between matches with find next and find previous, wrapping around", () => {
+      const virtualEditor = new VirtualEditor(code.slice());
+      virtualEditor.applyActions([
+        { name: "editor-find", value: "total" },
+        { name: "editor-find-next", value: "4" },
+      ]);
+      expect(virtualEditor.getFindWidgetState().activeMatchIndex).toEqual(0);
+
+      virtualEditor.applyAction({ name: "editor-find-previous", value: "1" });
+      expect(virtualEditor.getFindWidgetState().activeMatchIndex).toEqual(3);
+      expect(virtualEditor.getCurrentHighlightedCode()).toEqual("Total");
+    });
+
+    it("narrows the matches with the case sensitive and whole word toggles", () => {
+      const virtualEditor = new VirtualEditor(code.slice());
+      virtualEditor.applyActions([
+        { name: "editor-find", value: "total" },
+        { name: "editor-toggle-find-case-sensitive", value: "" },
+      ]);
+      expect(virtualEditor.getFindWidgetState().matches.length).toEqual(3);
+
+      virtualEditor.applyAction({ name: "editor-toggle-find-whole-word", value: "" });
+      const findWidgetState = virtualEditor.getFindWidgetState();
+      expect(findWidgetState.isCaseSensitive).toEqual(true);
+      expect(findWidgetState.isWholeWord).toEqual(true);
+      expect(findWidgetState.matches.length).toEqual(2);
+    });
+
+    it("replaces the active match and moves on to the next one", () => {
+      const virtualEditor = new VirtualEditor(code.slice());
+      virtualEditor.applyActions([
+        { name: "editor-find", value: "total" },
+        { name: "editor-toggle-find-whole-word", value: "" },
+        { name: "editor-replace", value: "sum" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual(
+        "const sum = 1;\nconst subtotal = total + 1;\nconsole.log(Total);"
+      );
+      expect(virtualEditor.getCurrentHighlightCoordinates()).toEqual({
+        start: { row: 2, col: 18 },
+        end: { row: 2, col: 23 },
+      });
+      expect(virtualEditor.getFindWidgetState().replaceText).toEqual("sum");
+    });
+
+    it("replaces every match at once, with regular expression groups", () => {
+      const virtualEditor = new VirtualEditor(["let a = 1;", "let b = 2;"]);
+      virtualEditor.applyActions([
+        { name: "editor-toggle-find-regex", value: "" },
+        { name: "editor-find", value: "let (\\w) = (\\d)" },
+        { name: "editor-replace-all", value: "const $1 = $2 * 10" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("const a = 1 * 10;\nconst b = 2 * 10;");
+      expect(virtualEditor.getFindWidgetState().matches).toEqual([]);
+      expect(virtualEditor.getIsSaved()).toEqual(false);
+    });
+
+    it("records the find widget state at each step", () => {
+      const virtualEditor = new VirtualEditor(["a a"]);
+      virtualEditor.applyActions([
+        { name: "editor-find", value: "a" },
+        { name: "editor-type", value: "b" },
+        { name: "editor-close-find", value: "" },
+      ]);
+      expect(virtualEditor.getFindWidgetStateAtActionIndex(0).isOpen).toEqual(false);
+      expect(virtualEditor.getFindWidgetStateAtActionIndex(1).activeMatchIndex).toEqual(0);
+      // typing over the highlighted match changes the matches and deactivates it
+      expect(virtualEditor.getFindWidgetStateAtActionIndex(2).matches).toEqual([
+        { start: { row: 1, col: 3 }, end: { row: 1, col: 4 } },
+      ]);
+      expect(virtualEditor.getFindWidgetStateAtActionIndex(2).activeMatchIndex).toEqual(-1);
+      expect(virtualEditor.getFindWidgetStateAtActionIndex(3).isOpen).toEqual(false);
+
+      // steps which don't change the find widget share the state of the step before
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "1" },
+        { name: "editor-arrow-left", value: "1" },
+      ]);
+      expect(virtualEditor.getFindWidgetStateAtActionIndex(4)).toBe(virtualEditor.getFindWidgetStateAtActionIndex(3));
+      expect(virtualEditor.getFindWidgetStateAtActionIndex(5)).toBe(virtualEditor.getFindWidgetStateAtActionIndex(3));
+    });
+
+    it("searches for the word at the caret when opened without a query", () => {
+      const virtualEditor = new VirtualEditor(["foo(bar, bar)"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "5" },
+        { name: "editor-find", value: "" },
+      ]);
+      expect(virtualEditor.getFindWidgetState().query).toEqual("bar");
+      expect(virtualEditor.getFindWidgetState().matches.length).toEqual(2);
+    });
+  });
+});
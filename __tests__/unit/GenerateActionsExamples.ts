@@ -0,0 +1,89 @@
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { diffLines } from "../../src/utils/diffLines";
+import { generateActions } from "../../src/utils/generateActions";
+import { describe, expect } from "@jest/globals";
+
+// a small deterministic random number generator, so that failures can be reproduced
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+describe("generateActions", () => {
+  describe("Generate Actions Examples", () => {
+    it("finds the lines which differ", () => {
+      expect(diffLines(["a", "b", "c", "d"], ["a", "x", "c", "d", "e"])).toEqual([
+        { oldStart: 1, oldCount: 1, newStart: 1, newCount: 1 },
+        { oldStart: 4, oldCount: 0, newStart: 4, newCount: 1 },
+      ]);
+      expect(diffLines(["a", "b", "c", "a", "b", "b", "a"], ["c", "b", "a", "b", "a", "c"])).toEqual([
+        { oldStart: 0, oldCount: 2, newStart: 0, newCount: 0 },
+        { oldStart: 3, oldCount: 0, newStart: 1, newCount: 1 },
+        { oldStart: 5, oldCount: 1, newStart: 4, newCount: 0 },
+        { oldStart: 7, oldCount: 0, newStart: 5, newCount: 1 },
+      ]);
+      expect(diffLines(["same"], ["same"])).toEqual([]);
+    });
+
+    it("types the changes between two versions of the code like an author", () => {
+      const initialCodeLines = ["function greet(name) {", "  return 'Hello ' + name;", "}"];
+      const targetCode = "// greets someone\nfunction greet(name, greeting) {\n  return greeting + ' ' + name;\n}\n\ngreet('world', 'Hi');";
+
+      const actions = generateActions(initialCodeLines, targetCode);
+      expect(actions).toEqual([
+        { name: "editor-type", value: "// greets someone" },
+        { name: "editor-enter", value: "1" },
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-arrow-left", value: "3" },
+        { name: "editor-type", value: ", greeting" },
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-command-left", value: "1" },
+        { name: "editor-arrow-right", value: "9" },
+        { name: "editor-shift+arrow-right", value: "6" },
+        { name: "editor-type", value: "greeting + '" },
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-enter", value: "2" },
+        { name: "editor-type", value: "greet('world', 'Hi');" },
+      ]);
+      expect(new VirtualEditor(initialCodeLines).applyActions(actions)).toEqual(targetCode);
+    });
+
+    it("highlights deleted lines and deletes text with backspace", () => {
+      const initialCodeLines = ["const a = 1;", "const b = 2;", "const c = 3;", "", "export { a, b, c };"];
+      const targetCode = "const a = 1;\nconst c = 3;\nexport { a, c };";
+
+      const actions = generateActions(initialCodeLines, targetCode);
+      expect(actions).toEqual([
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-shift+arrow-down", value: "1" },
+        { name: "editor-backspace", value: "1" },
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-shift+arrow-down", value: "1" },
+        { name: "editor-backspace", value: "1" },
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-arrow-left", value: "4" },
+        { name: "editor-backspace", value: "3" },
+      ]);
+      expect(new VirtualEditor(initialCodeLines).applyActions(actions)).toEqual(targetCode);
+    });
+
+    it("reproduces the target code of random edits", () => {
+      const random = createRandom(19);
+      const words = ["", "const", " ", "x", "(a, b)", "{", "}", "return 1;", "😊"];
+      const randomLine = () =>
+        Array.from({ length: Math.floor(random() * 4) }, () => words[Math.floor(random() * words.length)]).join("");
+      for (let i = 0; i < 50; i++) {
+        const initialCodeLines = Array.from({ length: 1 + Math.floor(random() * 6) }, randomLine);
+        const targetLines = initialCodeLines.slice();
+        for (let edit = 0; edit < 3; edit++) {
+          const row = Math.floor(random() * targetLines.length);
+          targetLines.splice(row, Math.floor(random() * 2), ...(random() < 0.7 ? [randomLine()] : []));
+        }
+        const targetCode = (targetLines.length > 0 ? targetLines : [""]).join("\n");
+        expect(new VirtualEditor(initialCodeLines).applyActions(generateActions(initialCodeLines, targetCode))).toEqual(
+          targetCode
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { describe, expect } from "@jest/globals";
+
+describe("VirtualEditor", () => {
+  describe("Goto Examples", () => {
+    const code = ["function add(a, b) {", "  return a + b;", "}", "", "add(1, 2);"];
+
+    it("goes to a row or a row and column", () => {
+      const virtualEditor = new VirtualEditor(code.slice());
+      virtualEditor.applyAction({ name: "editor-goto-line", value: "2" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 2, col: 1 });
+
+      virtualEditor.applyAction({ name: "editor-goto-line", value: "2:10" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 2, col: 10 });
+    });
+
+    it("clamps positions outside of the code and ignores invalid values", () => {
+      const virtualEditor = new VirtualEditor(code.slice());
+      virtualEditor.applyAction({ name: "editor-goto-line", value: "99:99" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 5, col: 11 });
+
+      virtualEditor.applyAction({ name: "editor-goto-line", value: "end" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 5, col: 11 });
+    });
+
+    it("goes to the start of the nth occurrence of a text", () => {
+      const virtualEditor = new VirtualEditor(code.slice());
+      virtualEditor.applyAction({ name: "editor-goto-text", value: "add" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 10 });
+
+      virtualEditor.applyAction({ name: "editor-goto-text", value: "add_____2" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 5, col: 1 });
+
+      // negative occurrences count from the end
+      virtualEditor.applyAction({ name: "editor-goto-text", value: "b_____-1" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 2, col: 14 });
+    });
+
+    it("selects an occurrence of a regular expression", () => {
+      const virtualEditor = new VirtualEditor(code.slice());
+      virtualEditor.applyActions([
+        { name: "editor-select-text", value: "/\\d, \\d/" },
+        { name: "editor-type", value: "3, 4" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("function add(a, b) {\n  return a + b;\n}\n\nadd(3, 4);");
+
+      virtualEditor.applyAction({ name: "editor-select-text", value: "/RETURN/i" });
+      expect(virtualEditor.getCurrentHighlightedCode()).toEqual("return");
+    });
+
+    it("leaves the caret alone when the text is not found", () => {
+      const virtualEditor = new VirtualEditor(code.slice());
+      virtualEditor.applyActions([
+        { name: "editor-goto-line", value: "3" },
+        { name: "editor-goto-text", value: "add_____3" },
+      ]);
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 3, col: 1 });
+    });
+
+    it("keeps working when the initial code changes", () => {
+      const longerCode = ["// a comment that moves everything down", ...code];
+      const virtualEditor = new VirtualEditor(longerCode);
+      virtualEditor.applyActions([
+        { name: "editor-goto-text", value: "return" },
+        { name: "editor-select-text", value: "a + b" },
+        { name: "editor-type", value: "b + a" },
+      ]);
+      expect(virtualEditor.getCodeLines()[2]).toEqual("  return b + a;");
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect } from "@jest/globals";
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { humanizeTyping } from "../../src/utils/humanizeTyping";
+
+const text = "const greeting = 'Hello, world!';\nconsole.log(greeting);";
+
+describe("humanizeTyping", () => {
+  describe("Humanize Typing Examples", () => {
+    it("types the same code with typos, corrections and pauses, the same way for the same seed", () => {
+      const humanizedTyping = humanizeTyping(text, { seed: 42, typoProbability: 0.2 });
+      expect(humanizeTyping(text, { seed: 42, typoProbability: 0.2 })).toEqual(humanizedTyping);
+      expect(humanizeTyping(text, { seed: 7, typoProbability: 0.2 })).not.toEqual(humanizedTyping);
+
+      const { actions, pace } = humanizedTyping;
+      expect(new VirtualEditor([""], actions).getCode()).toEqual(text);
+      expect(pace.length).toEqual(actions.length);
+
+      // every typo is a key next to the right one, deleted right away
+      const backspaceIndices = actions.flatMap((action, index) => (action.name === "editor-backspace" ? [index] : []));
+      expect(backspaceIndices.length).toBeGreaterThan(0);
+      backspaceIndices.forEach((index) => {
+        expect(actions[index - 1].name).toEqual("editor-type");
+        expect(Array.from(actions[index - 1].value).length).toEqual(parseInt(actions[index].value));
+        expect(pace[index].pauseMillisecondsBefore).toBeGreaterThanOrEqual(180);
+      });
+
+      // the author pauses after punctuation, and types at 60% to 140% of the average pace
+      const typedActions = actions.filter((action) => action.name === "editor-type");
+      expect(typedActions.some((action) => action.value.endsWith(","))).toBe(true);
+      actions.forEach((action, index) => {
+        if (index > 0 && /[.,;:!?\n]$/.test(actions[index - 1].value) && actions[index - 1].name === "editor-type") {
+          expect(pace[index].pauseMillisecondsBefore).toBeGreaterThanOrEqual(240);
+        }
+        expect(pace[index].millisecondsPerKeystroke).toBeGreaterThanOrEqual(60);
+        expect(pace[index].millisecondsPerKeystroke).toBeLessThanOrEqual(140);
+      });
+
+      expect(humanizeTyping(text, { typoProbability: 0, punctuationPauseMilliseconds: 0 }).actions.map((action) => action.value).join("")).toEqual(text);
+    });
+
+    it("only keeps the typos which can be corrected in the virtual editor the text is typed in", () => {
+      // a backspace right before an auto closed quote forgets it, so it would no longer be typed over
+      const virtualEditor = new VirtualEditor([""], [{ name: "editor-type", value: "f('" }], false, {
+        autoClosingBrackets: "always",
+        autoClosingQuotes: "always",
+        autoClosingOvertype: "auto",
+      });
+      expect(virtualEditor.getCode()).toEqual("f('')");
+      const { actions } = humanizeTyping("abcd')", { typoProbability: 1 }, virtualEditor);
+      expect(actions.filter((action) => action.name === "editor-backspace")).toEqual([]);
+      virtualEditor.applyActions(actions);
+      expect(virtualEditor.getCode()).toEqual("f('abcd')");
+
+      // without anything auto closed, the same text gets typos
+      const plainVirtualEditor = new VirtualEditor([""], [{ name: "editor-type", value: "f('" }]);
+      const plainActions = humanizeTyping("abcd')", { typoProbability: 1 }, plainVirtualEditor).actions;
+      expect(plainActions.filter((action) => action.name === "editor-backspace").length).toBeGreaterThan(0);
+      plainVirtualEditor.applyActions(plainActions);
+      expect(plainVirtualEditor.getCode()).toEqual("f('abcd')");
+    });
+  });
+});
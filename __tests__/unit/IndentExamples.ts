@@ -0,0 +1,92 @@
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { describe, expect } from "@jest/globals";
+
+describe("VirtualEditor", () => {
+  describe("Indent Examples", () => {
+    it("still inserts a tab at the caret when nothing is highlighted", () => {
+      const virtualEditor = new VirtualEditor(["return;"]);
+      virtualEditor.applyAction({ name: "editor-tab", value: "2" });
+      expect(virtualEditor.getCode()).toEqual("\t\treturn;");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 3 });
+      expect(virtualEditor.getIsSaved()).toEqual(false);
+    });
+
+    it("replaces a highlight within a single line with a tab", () => {
+      const virtualEditor = new VirtualEditor(["a  b"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "1" },
+        { name: "editor-shift+arrow-right", value: "2" },
+        { name: "editor-tab", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("a\tb");
+      expect(virtualEditor.getCurrentHighlightCoordinates()).toEqual(null);
+    });
+
+    it("indents every line touched by a multi-line highlight", () => {
+      const virtualEditor = new VirtualEditor(["if x:", "print(x)", "", "print(y)", "done"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-arrow-right", value: "2" },
+        { name: "editor-shift+arrow-down", value: "2" },
+        { name: "editor-tab", value: "1" },
+      ]);
+      // empty lines are not indented
+      expect(virtualEditor.getCode()).toEqual("if x:\n\tprint(x)\n\n\tprint(y)\ndone");
+      expect(virtualEditor.getCurrentHighlightCoordinates()).toEqual({
+        start: { row: 2, col: 4 },
+        end: { row: 4, col: 4 },
+      });
+      expect(virtualEditor.getCurrentHighlightedCode()).toEqual("int(x)\n\n\tpr");
+    });
+
+    it("keeps a highlight starting at column 1 starting there when indenting", () => {
+      const virtualEditor = new VirtualEditor(["one", "two", "three"]);
+      virtualEditor.applyActions([
+        { name: "editor-shift+arrow-down", value: "2" },
+        { name: "editor-tab", value: "1" },
+      ]);
+      // the highlight ends at the start of "three", so it is not touched
+      expect(virtualEditor.getCode()).toEqual("\tone\n\ttwo\nthree");
+      expect(virtualEditor.getCurrentHighlightedCode()).toEqual("\tone\n\ttwo\n");
+    });
+
+    it("outdents the caret line with shift+tab", () => {
+      const virtualEditor = new VirtualEditor(["      indented"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "8" },
+        { name: "editor-shift+tab", value: "1" },
+      ]);
+      // the indentation is cut back to the previous tab stop
+      expect(virtualEditor.getCode()).toEqual("    indented");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 7 });
+      virtualEditor.applyAction({ name: "editor-shift+tab", value: "3" });
+      expect(virtualEditor.getCode()).toEqual("indented");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 3 });
+    });
+
+    it("outdents mixed and uneven indentation to the previous tab stop", () => {
+      const outdent = (line: string, tabSize: number) =>
+        new VirtualEditor([line], [{ name: "editor-shift+tab", value: "1" }], false, { tabSize }).getCode();
+      expect(outdent("   a", 2)).toEqual("  a");
+      expect(outdent("    a", 2)).toEqual("  a");
+      expect(outdent("\t  a", 4)).toEqual("\ta");
+      expect(outdent(" \ta", 4)).toEqual("a");
+      expect(outdent("\t\t a", 4)).toEqual("\t\ta");
+      expect(outdent("a", 4)).toEqual("a");
+    });
+
+    it("outdents every line touched by a highlight and adjusts the highlight", () => {
+      const virtualEditor = new VirtualEditor(["\tkey:", "\t\tvalue", "other"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "2" },
+        { name: "editor-shift+arrow-down", value: "1" },
+        { name: "editor-shift+tab", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("key:\n\tvalue\nother");
+      expect(virtualEditor.getCurrentHighlightCoordinates()).toEqual({
+        start: { row: 1, col: 2 },
+        end: { row: 2, col: 2 },
+      });
+    });
+  });
+});
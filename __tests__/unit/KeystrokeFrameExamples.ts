@@ -0,0 +1,83 @@
+import { describe, expect } from "@jest/globals";
+import { IAction } from "@fullstackcraftllc/codevideo-types";
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { getKeystrokeFrames } from "../../src/utils/getKeystrokeFrames";
+
+describe("getKeystrokeFrames", () => {
+  describe("Keystroke Frame Examples", () => {
+    it("expands every character typed and every repeat into its own frame, mapped back to its action", () => {
+      const actions: Array<IAction> = [
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-arrow-left", value: "3" },
+        { name: "terminal-type", value: "npm test" },
+        { name: "editor-type", value: " = 1" },
+      ];
+      const frames = getKeystrokeFrames(["let a;//"], actions);
+      expect(frames.map(({ actionIndex, keystroke, keystrokeCount }) => [actionIndex, keystroke, keystrokeCount])).toEqual([
+        [-1, 0, 0],
+        [0, 1, 1],
+        [1, 1, 3],
+        [1, 2, 3],
+        [1, 3, 3],
+        [2, 0, 0],
+        [3, 1, 4],
+        [3, 2, 4],
+        [3, 3, 4],
+        [3, 4, 4],
+      ]);
+      expect(frames.map((frame) => frame.state.caretPosition.col)).toEqual([1, 9, 8, 7, 6, 6, 7, 8, 9, 10]);
+      expect(frames.map((frame) => frame.state.code).slice(6)).toEqual(["let a ;//", "let a =;//", "let a = ;//", "let a = 1;//"]);
+      expect(frames[7].state.action).toEqual({ name: "editor-type", value: " =" });
+
+      // the last frame of each action is the state of the virtual editor after it
+      const timeline = new VirtualEditor(["let a;//"], actions).getTimeline();
+      expect(frames.filter((frame) => frame.keystroke === frame.keystrokeCount)).toEqual(
+        timeline.map((state, index) => expect.objectContaining({ actionIndex: index - 1, state }))
+      );
+    });
+
+    it("keeps the behaviour of the virtual editor within an action", () => {
+      const frames = getKeystrokeFrames([""], [{ name: "editor-type", value: "f(x)" }], {
+        autoClosingBrackets: "always",
+      });
+      expect(frames.map((frame) => [frame.state.code, frame.state.caretPosition.col])).toEqual([
+        ["", 1],
+        ["f", 2],
+        ["f()", 3],
+        ["f(x)", 4],
+        ["f(x)", 5],
+      ]);
+
+      // a highlight is replaced with the first character typed over it
+      const highlightFrames = getKeystrokeFrames(
+        ["abc"],
+        [
+          { name: "editor-shift+arrow-right", value: "3" },
+          { name: "editor-type", value: "xy" },
+        ]
+      );
+      expect(highlightFrames.map((frame) => frame.state.highlightedCode)).toEqual(["", "a", "ab", "abc", "", ""]);
+      expect(highlightFrames.map((frame) => frame.state.code).slice(4)).toEqual(["x", "xy"]);
+    });
+
+    it("undoes and redoes one edit group per keystroke", () => {
+      const actions: Array<IAction> = [
+        { name: "editor-type", value: "a" },
+        { name: "editor-arrow-left", value: "1" },
+        { name: "editor-type", value: "b" },
+        { name: "editor-arrow-left", value: "1" },
+        { name: "editor-type", value: "c" },
+        { name: "editor-undo", value: "3" },
+        { name: "editor-redo", value: "2" },
+      ];
+      const frames = getKeystrokeFrames([""], actions);
+      expect(frames.filter((frame) => frame.actionIndex >= 5).map((frame) => [frame.state.code, frame.state.action.value])).toEqual([
+        ["ba", "1"],
+        ["a", "2"],
+        ["", "3"],
+        ["a", "1"],
+        ["ba", "2"],
+      ]);
+    });
+  });
+});
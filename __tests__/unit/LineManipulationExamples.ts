@@ -0,0 +1,90 @@
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { describe, expect } from "@jest/globals";
+
+describe("VirtualEditor", () => {
+  describe("Line Manipulation Examples", () => {
+    it("moves the caret line up and down along with the caret", () => {
+      const virtualEditor = new VirtualEditor(["one", "two", "three"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-down", value: "2" },
+        { name: "editor-arrow-right", value: "2" },
+        { name: "editor-move-line-up", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("one\nthree\ntwo");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 2, col: 3 });
+
+      virtualEditor.applyAction({ name: "editor-move-line-up", value: "5" });
+      expect(virtualEditor.getCode()).toEqual("three\none\ntwo");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 3 });
+
+      virtualEditor.applyAction({ name: "editor-move-line-down", value: "2" });
+      expect(virtualEditor.getCode()).toEqual("one\ntwo\nthree");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 3, col: 3 });
+    });
+
+    it("moves every line touched by the highlight and keeps the highlight", () => {
+      const virtualEditor = new VirtualEditor(["a", "b", "c", "d"]);
+      virtualEditor.applyActions([
+        { name: "editor-shift+arrow-down", value: "2" },
+        { name: "editor-move-line-down", value: "1" },
+      ]);
+      // the highlight ends at the start of "c", so "c" is not touched
+      expect(virtualEditor.getCode()).toEqual("c\na\nb\nd");
+      expect(virtualEditor.getCurrentHighlightCoordinates()).toEqual({
+        start: { row: 2, col: 1 },
+        end: { row: 4, col: 1 },
+      });
+      expect(virtualEditor.getCurrentHighlightedCode()).toEqual("a\nb\n");
+    });
+
+    it("copies the touched lines down and moves the caret to the copy", () => {
+      const virtualEditor = new VirtualEditor(["const a = 1;", "const b = 2;"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "6" },
+        { name: "editor-copy-line-down", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("const a = 1;\nconst a = 1;\nconst b = 2;");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 2, col: 7 });
+    });
+
+    it("copies the touched lines up and keeps the caret on the upper copy", () => {
+      const virtualEditor = new VirtualEditor(["x", "y", "z"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-shift+arrow-down", value: "1" },
+        { name: "editor-shift+arrow-right", value: "1" },
+        { name: "editor-copy-line-up", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("x\ny\nz\ny\nz");
+      expect(virtualEditor.getCurrentHighlightedCode()).toEqual("y\nz");
+    });
+
+    it("deletes the touched lines", () => {
+      const virtualEditor = new VirtualEditor(["first", "second", "third"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "5" },
+        { name: "editor-delete-line", value: "" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("second\nthird");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 6 });
+
+      virtualEditor.applyActions([
+        { name: "editor-shift+arrow-down", value: "1" },
+        { name: "editor-delete-line", value: "" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 1 });
+      expect(virtualEditor.getCurrentHighlightCoordinates()).toEqual(null);
+    });
+
+    it("moves the caret up when deleting the last line", () => {
+      const virtualEditor = new VirtualEditor(["first", "last"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-delete-line", value: "" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("first");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 1 });
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { VirtualClipboard } from "../../src/VirtualClipboard";
+import { describe, expect } from "@jest/globals";
+
+describe("VirtualEditor", () => {
+  describe("Multi Cursor Examples", () => {
+    it("types at every cursor added below", () => {
+      const virtualEditor = new VirtualEditor(["one", "two", "three"]);
+      virtualEditor.applyActions([
+        { name: "editor-add-cursor-below", value: "2" },
+        { name: "editor-type", value: "- " },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("- one\n- two\n- three");
+      // the primary cursor stays the original one
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 3 });
+      expect(virtualEditor.getCurrentCursors().map((cursor) => cursor.caretPosition)).toEqual([
+        { row: 1, col: 3 },
+        { row: 2, col: 3 },
+        { row: 3, col: 3 },
+      ]);
+    });
+
+    it("keeps the column of added cursors across shorter lines", () => {
+      const virtualEditor = new VirtualEditor(["const a = 1;", "", "const b = 2;"]);
+      virtualEditor.applyActions([
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-add-cursor-below", value: "2" },
+      ]);
+      expect(virtualEditor.getCurrentCursors().map((cursor) => cursor.caretPosition)).toEqual([
+        { row: 1, col: 13 },
+        { row: 2, col: 1 },
+        { row: 3, col: 13 },
+      ]);
+    });
+
+    it("adds cursors above and applies backspace and enter at each of them", () => {
+      const virtualEditor = new VirtualEditor(["a;", "b;", "c;"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-down", value: "2" },
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-add-cursor-above", value: "5" },
+        { name: "editor-backspace", value: "1" },
+        { name: "editor-enter", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("a\n\nb\n\nc\n");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 6, col: 1 });
+    });
+
+    it("selects the word at the caret and then its next occurrences with cmd+d", () => {
+      const virtualEditor = new VirtualEditor(["let count = 0;", "count++;", "console.log(count);"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "6" },
+        { name: "editor-cmd+d", value: "1" },
+      ]);
+      expect(virtualEditor.getCurrentHighlightedCode()).toEqual("count");
+      expect(virtualEditor.getCurrentCursors().length).toEqual(1);
+
+      virtualEditor.applyActions([
+        { name: "editor-add-next-occurrence", value: "5" },
+        { name: "editor-type", value: "total" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("let total = 0;\ntotal++;\nconsole.log(total);");
+      expect(virtualEditor.getCurrentCursors().map((cursor) => cursor.caretPosition)).toEqual([
+        { row: 1, col: 10 },
+        { row: 2, col: 6 },
+        { row: 3, col: 18 },
+      ]);
+    });
+
+    it("only adds whole words after selecting the word at the caret, but any occurrence of a highlight", () => {
+      const virtualEditor = new VirtualEditor(["const food = foo(foo);"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "13" },
+        { name: "editor-cmd+d", value: "2" },
+      ]);
+      expect(virtualEditor.getCurrentCursors().map((cursor) => cursor.highlightCoordinates)).toEqual([
+        { start: { row: 1, col: 14 }, end: { row: 1, col: 17 } },
+        { start: { row: 1, col: 18 }, end: { row: 1, col: 21 } },
+      ]);
+
+      // a highlight made by hand also matches inside other words
+      virtualEditor.applyActions([
+        { name: "editor-escape", value: "1" },
+        { name: "editor-command-left", value: "1" },
+        { name: "editor-arrow-right", value: "13" },
+        { name: "editor-shift+arrow-right", value: "3" },
+        { name: "editor-cmd+d", value: "1" },
+      ]);
+      expect(virtualEditor.getCurrentCursors().map((cursor) => cursor.highlightCoordinates)).toEqual([
+        { start: { row: 1, col: 14 }, end: { row: 1, col: 17 } },
+        { start: { row: 1, col: 18 }, end: { row: 1, col: 21 } },
+      ]);
+      virtualEditor.applyAction({ name: "editor-cmd+d", value: "1" });
+      expect(virtualEditor.getCurrentCursors()[2].highlightCoordinates).toEqual({ start: { row: 1, col: 7 }, end: { row: 1, col: 10 } });
+    });
+
+    it("wraps around to the start when looking for the next occurrence", () => {
+      const virtualEditor = new VirtualEditor(["x = x + 1"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "4" },
+        { name: "editor-shift+arrow-right", value: "1" },
+        { name: "editor-command-d", value: "2" },
+      ]);
+      expect(virtualEditor.getCurrentCursors().map((cursor) => cursor.highlightCoordinates)).toEqual([
+        { start: { row: 1, col: 5 }, end: { row: 1, col: 6 } },
+        { start: { row: 1, col: 1 }, end: { row: 1, col: 2 } },
+      ]);
+    });
+
+    it("copies one line per cursor and spreads them over the cursors when pasting", () => {
+      const clipboard = new VirtualClipboard();
+      const virtualEditor = new VirtualEditor(["a = 1", "b = 2"]);
+      virtualEditor.setClipboard(clipboard);
+      virtualEditor.applyActions([
+        { name: "editor-add-cursor-below", value: "1" },
+        { name: "editor-shift+arrow-right", value: "1" },
+        { name: "editor-copy", value: "" },
+      ]);
+      expect(clipboard.getText()).toEqual("a\nb");
+
+      virtualEditor.applyActions([
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-type", value: " + " },
+        { name: "editor-paste", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("a = 1 + a\nb = 2 + b");
+    });
+
+    it("goes back to the primary cursor with escape, and undo restores the cursors", () => {
+      const virtualEditor = new VirtualEditor(["a", "b"]);
+      virtualEditor.applyActions([
+        { name: "editor-add-cursor-below", value: "1" },
+        { name: "editor-type", value: "!" },
+        { name: "editor-escape", value: "" },
+      ]);
+      expect(virtualEditor.getCurrentCursors().length).toEqual(1);
+
+      virtualEditor.applyAction({ name: "editor-undo", value: "1" });
+      expect(virtualEditor.getCode()).toEqual("a\nb");
+      expect(virtualEditor.getCurrentCursors().length).toEqual(2);
+    });
+
+    it("merges cursors that end up at the same position", () => {
+      const virtualEditor = new VirtualEditor(["ab", "cd"]);
+      virtualEditor.applyActions([
+        { name: "editor-add-cursor-below", value: "1" },
+        { name: "editor-arrow-up", value: "1" },
+      ]);
+      expect(virtualEditor.getCurrentCursors().length).toEqual(1);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect } from "@jest/globals";
+import { IAction } from "@fullstackcraftllc/codevideo-types";
+import { getNarrationTimeline } from "../../src/utils/getNarrationTimeline";
+
+describe("getNarrationTimeline", () => {
+  describe("Narration Timeline Examples", () => {
+    it("groups every run of editor actions with the speech introducing and following it", () => {
+      const actions: Array<IAction> = [
+        { name: "author-speak-before", value: "Let's log something." },
+        { name: "editor-type", value: "console.log('hello');" },
+        { name: "author-speak-after", value: "That logs hello." },
+        { name: "author-wait", value: "500" },
+        { name: "author-speak-before", value: "Now let's say world instead." },
+        { name: "editor-arrow-left", value: "3" },
+        { name: "editor-backspace", value: "5" },
+        { name: "editor-type", value: "world" },
+        { name: "author-speak-after", value: "And that's it!" },
+      ];
+      const timeline = getNarrationTimeline([], actions);
+      expect(timeline).toEqual([
+        {
+          speechCaptions: [
+            { speechType: "author-speak-before", speechValue: "Let's log something." },
+            { speechType: "author-speak-after", speechValue: "That logs hello." },
+          ],
+          actionRange: { startIndex: 0, endIndex: 3 },
+          editorActionRange: { startIndex: 1, endIndex: 1 },
+          codeBefore: "",
+          codeAfter: "console.log('hello');",
+        },
+        {
+          speechCaptions: [
+            { speechType: "author-speak-before", speechValue: "Now let's say world instead." },
+            { speechType: "author-speak-after", speechValue: "And that's it!" },
+          ],
+          actionRange: { startIndex: 4, endIndex: 8 },
+          editorActionRange: { startIndex: 5, endIndex: 7 },
+          codeBefore: "console.log('hello');",
+          codeAfter: "console.log('world');",
+        },
+      ]);
+    });
+
+    it("keeps runs without editor actions and speech without any run as segments of their own", () => {
+      const actions: Array<IAction> = [
+        { name: "author-speak-during", value: "First, let's install the dependencies." },
+        { name: "terminal-type", value: "npm install" },
+        { name: "terminal-enter", value: "1" },
+        { name: "author-speak-before", value: "Then fix the greeting." },
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-backspace", value: "1" },
+        { name: "editor-type", value: "!" },
+        { name: "mouse-move-file-explorer", value: "1" },
+      ];
+      const timeline = getNarrationTimeline(["hello."], actions);
+      expect(timeline.length).toEqual(2);
+      expect(timeline[0].actionRange).toEqual({ startIndex: 0, endIndex: 2 });
+      expect(timeline[0].editorActionRange).toBeNull();
+      expect(timeline[0].codeBefore).toEqual("hello.");
+      expect(timeline[0].codeAfter).toEqual("hello.");
+      expect(timeline[1].actionRange).toEqual({ startIndex: 3, endIndex: 7 });
+      expect(timeline[1].editorActionRange).toEqual({ startIndex: 4, endIndex: 6 });
+      expect(timeline[1].codeAfter).toEqual("hello!");
+
+      const speechOnly = getNarrationTimeline(["a"], [{ name: "author-speak-before", value: "Welcome!" }]);
+      expect(speechOnly).toEqual([
+        {
+          speechCaptions: [{ speechType: "author-speak-before", speechValue: "Welcome!" }],
+          actionRange: { startIndex: 0, endIndex: 0 },
+          editorActionRange: null,
+          codeBefore: "a",
+          codeAfter: "a",
+        },
+      ]);
+      expect(getNarrationTimeline([], [])).toEqual([]);
+    });
+  });
+});
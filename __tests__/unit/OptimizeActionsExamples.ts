@@ -0,0 +1,111 @@
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { IVirtualEditorAction } from "../../src/types/ExtendedEditorActions";
+import { optimizeActions } from "../../src/utils/optimizeActions";
+import { describe, expect } from "@jest/globals";
+
+// the optimized script must have the same code as the original script at every step it keeps
+const expectSameCodeAtKeptSteps = (
+  initialCodeLines: Array<string>,
+  actions: Array<IVirtualEditorAction>,
+  optimizedActions: Array<IVirtualEditorAction>,
+  originalActionIndices: Array<number>
+) => {
+  const originalCode = new VirtualEditor(initialCodeLines, actions).getCodeAfterEachStep();
+  const optimizedCode = new VirtualEditor(initialCodeLines, optimizedActions).getCodeAfterEachStep();
+  expect(optimizedCode.slice(1)).toEqual(originalActionIndices.map((index) => originalCode[index + 1]));
+  expect(optimizedCode[optimizedCode.length - 1]).toEqual(originalCode[originalCode.length - 1]);
+};
+
+describe("optimizeActions", () => {
+  describe("Optimize Actions Examples", () => {
+    it("removes the noise of a recorded script", () => {
+      const initialCodeLines = ["const a = 1;", "const b = 2;"];
+      const actions: Array<IVirtualEditorAction> = [
+        { name: "editor-arrow-up", value: "1" },
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-arrow-right", value: "1" },
+        { name: "editor-arrow-right", value: "1" },
+        { name: "editor-arrow-right", value: "4" },
+        { name: "editor-arrow-left", value: "2" },
+        { name: "author-speak-before", value: "Let's rename it." },
+        { name: "editor-type", value: "constant" },
+        { name: "editor-backspace", value: "5" },
+        { name: "editor-arrow-down", value: "3" },
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-arrow-left", value: "40" },
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-arrow-up", value: "1" },
+      ];
+
+      const { actions: optimizedActions, originalActionIndices, diagnostics } = optimizeActions(initialCodeLines, actions);
+      expect(optimizedActions).toEqual([
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-arrow-right", value: "4" },
+        { name: "author-speak-before", value: "Let's rename it." },
+        { name: "editor-type", value: "con" },
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-arrow-left", value: "28" },
+      ]);
+      expect(originalActionIndices).toEqual([1, 5, 6, 8, 10, 12]);
+      expect(diagnostics.map((diagnostic) => [diagnostic.kind, diagnostic.actionIndex, diagnostic.endActionIndex])).toEqual([
+        ["dropped-move", 0, 0],
+        ["cancelled-moves", 2, 5],
+        ["erased-typing", 7, 8],
+        ["dropped-move", 9, 9],
+        ["dropped-move", 11, 11],
+        ["trimmed-move", 12, 12],
+        ["cancelled-moves", 13, 14],
+      ]);
+      expect(diagnostics[5].message).toEqual(
+        "codevideo-virtual-editor: editor-arrow-left is repeated 40 times, but only 28 of them have an effect."
+      );
+      expectSameCodeAtKeptSteps(initialCodeLines, actions, optimizedActions, originalActionIndices);
+    });
+
+    it("keeps the actions whose removal would change a later step", () => {
+      const actions: Array<IVirtualEditorAction> = [
+        { name: "editor-type", value: "ab" },
+        { name: "editor-arrow-right", value: "1" },
+        { name: "editor-type", value: "c" },
+        { name: "editor-undo", value: "1" },
+      ];
+
+      // the arrow closes the undo group of the first editor-type, so the undo only removes the 'c'
+      const { actions: optimizedActions, diagnostics } = optimizeActions([""], actions);
+      expect(optimizedActions).toEqual(actions);
+      expect(diagnostics.map((diagnostic) => [diagnostic.kind, diagnostic.actionIndex])).toEqual([["out-of-range-movement", 1]]);
+    });
+
+    it("only collapses backspaces which erase exactly the typed text", () => {
+      const initialCodeLines = ["call"];
+      const actions: Array<IVirtualEditorAction> = [
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-type", value: "(x" },
+        { name: "editor-backspace", value: "1" },
+        { name: "editor-type", value: ")" },
+        { name: "editor-type", value: "ab" },
+        { name: "editor-backspace", value: "2" },
+        { name: "editor-invalid", value: "1" },
+      ];
+
+      // auto closing inserts a closing bracket which the backspace doesn't delete, so the first editor-type isn't just shortened
+      const { actions: optimizedActions, originalActionIndices, diagnostics } = optimizeActions(initialCodeLines, actions, {
+        autoClosingBrackets: "always",
+      });
+      expect(optimizedActions).toEqual([
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-type", value: "(x" },
+        { name: "editor-backspace", value: "1" },
+        { name: "editor-type", value: ")" },
+        { name: "editor-invalid", value: "1" },
+      ]);
+      expect(originalActionIndices).toEqual([0, 1, 2, 3, 6]);
+      expect(diagnostics.map((diagnostic) => [diagnostic.kind, diagnostic.actionIndex])).toEqual([
+        ["erased-typing", 4],
+        ["unrecognized-action", 6],
+      ]);
+      expectSameCodeAtKeptSteps(initialCodeLines, actions, optimizedActions, originalActionIndices);
+    });
+  });
+});
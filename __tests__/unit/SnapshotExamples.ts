@@ -0,0 +1,125 @@
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { describe, expect } from "@jest/globals";
+import { IVirtualEditorAction } from "../../src/types/ExtendedEditorActions";
+
+describe("VirtualEditor", () => {
+  describe("Snapshot Examples", () => {
+    const actions: Array<IVirtualEditorAction> = [
+      { name: "editor-type", value: "const greeting = 'hello';" },
+      { name: "editor-enter", value: "1" },
+      { name: "editor-type", value: "console.log(greeting);" },
+      { name: "editor-show-context-menu", value: "" },
+      { name: "editor-select-text", value: "greeting_____2" },
+      { name: "editor-copy", value: "" },
+    ];
+
+    it("restores an identical virtual editor from a snapshot", () => {
+      const virtualEditor = new VirtualEditor([], actions, false, { tabSize: 2 });
+      const restoredEditor = VirtualEditor.fromSnapshot(virtualEditor.getSnapshot());
+
+      expect(restoredEditor.getSnapshot()).toEqual(virtualEditor.getSnapshot());
+      expect(restoredEditor.getCode()).toEqual(virtualEditor.getCode());
+      expect(restoredEditor.getCurrentCaretPosition()).toEqual({ row: 2, col: 21 });
+      expect(restoredEditor.getCurrentHighlightedCode()).toEqual("greeting");
+      expect(restoredEditor.getIsEditorContextMenuOpen()).toEqual(true);
+      expect(restoredEditor.getOptions().tabSize).toEqual(2);
+      expect(restoredEditor.getClipboard().getText()).toEqual("greeting");
+    });
+
+    it("continues exactly like the original virtual editor, including undo", () => {
+      const virtualEditor = new VirtualEditor([], actions);
+      const restoredEditor = VirtualEditor.fromSnapshot(JSON.parse(JSON.stringify(virtualEditor.getSnapshot(true))));
+      const moreActions: Array<IVirtualEditorAction> = [
+        { name: "editor-type", value: "message" },
+        { name: "editor-undo", value: "2" },
+        { name: "editor-arrow-up", value: "1" },
+      ];
+
+      virtualEditor.applyActions(moreActions);
+      restoredEditor.applyActions(moreActions);
+      expect(restoredEditor.getCode()).toEqual(virtualEditor.getCode());
+      expect(restoredEditor.getCurrentCaretPosition()).toEqual(virtualEditor.getCurrentCaretPosition());
+      expect(restoredEditor.getCanRedo()).toEqual(true);
+    });
+
+    it("only includes the histories and the undo and redo stacks when requested", () => {
+      const virtualEditor = new VirtualEditor([], actions);
+      expect(virtualEditor.getSnapshot().history).toBeUndefined();
+      expect(virtualEditor.getSnapshot().undoStack).toBeUndefined();
+      expect(VirtualEditor.fromSnapshot(virtualEditor.getSnapshot()).getCanUndo()).toEqual(false);
+
+      const restoredEditor = VirtualEditor.fromSnapshot(virtualEditor.getSnapshot(true));
+      expect(restoredEditor.getCodeAfterEachStep()).toEqual(virtualEditor.getCodeAfterEachStep());
+      expect(restoredEditor.getActionsApplied()).toEqual(virtualEditor.getActionsApplied());
+      expect(restoredEditor.getHighlightedCodeAtActionIndex(5)).toEqual("greeting");
+    });
+
+    it("starts the histories at the snapshot without them", () => {
+      const virtualEditor = new VirtualEditor([], actions);
+      const restoredEditor = VirtualEditor.fromSnapshot(virtualEditor.getSnapshot());
+      expect(restoredEditor.getCodeAfterEachStep()).toEqual([virtualEditor.getCode()]);
+      expect(restoredEditor.getEditorStateAfterEachStep()[0].caretPosition).toEqual({ row: 1, col: 20 });
+    });
+
+    it("copies the current state and the undo and redo stacks without the histories", () => {
+      const virtualEditor = new VirtualEditor([], actions, false, { validation: "lint" });
+      const copy = virtualEditor.clone({ validation: "off" });
+      expect(copy.getSnapshot()).toEqual({ ...virtualEditor.getSnapshot(), options: { ...virtualEditor.getOptions(), validation: "off" } });
+      expect(copy.getCodeAfterEachStep()).toEqual([virtualEditor.getCode()]);
+      expect(copy.getSnapshot(true).undoStack).toEqual(virtualEditor.getSnapshot(true).undoStack);
+
+      // the copy and the virtual editor change independently
+      copy.applyAction({ name: "editor-type", value: "message" });
+      virtualEditor.applyAction({ name: "editor-arrow-up", value: "1" });
+      expect(copy.getCode()).toEqual("const greeting = 'hello';\nconsole.log(message);");
+      expect(virtualEditor.getCode()).toEqual("const greeting = 'hello';\nconsole.log(greeting);");
+      expect(copy.getCurrentCaretPosition()).toEqual({ row: 2, col: 20 });
+
+      // typing on in the edit group both undo stacks share only changes each one's own
+      const typingEditor = new VirtualEditor([""], [{ name: "editor-type", value: "a" }]);
+      const typingCopy = typingEditor.clone();
+      typingEditor.applyAction({ name: "editor-type", value: "b" });
+      typingCopy.applyAction({ name: "editor-type", value: "c" });
+      expect(typingCopy.applyActions([{ name: "editor-undo", value: "1" }, { name: "editor-redo", value: "1" }])).toEqual("ac");
+      expect(typingEditor.applyActions([{ name: "editor-undo", value: "1" }, { name: "editor-redo", value: "1" }])).toEqual("ab");
+    });
+
+    it("shares no state between the snapshot and the virtual editor", () => {
+      const virtualEditor = new VirtualEditor(["original"]);
+      const snapshot = virtualEditor.getSnapshot(true);
+      virtualEditor.applyAction({ name: "editor-type", value: "changed " });
+      expect(snapshot.codeLines).toEqual(["original"]);
+
+      const restoredEditor = VirtualEditor.fromSnapshot(snapshot);
+      restoredEditor.applyAction({ name: "editor-type", value: "also changed " });
+      expect(snapshot.codeLines).toEqual(["original"]);
+      expect(snapshot.history?.codeLinesHistory).toEqual({
+        keyframeInterval: 100,
+        keyframes: [["original"]],
+        deltas: [{ startRow: 0, deletedCount: 0, insertedLines: ["original"] }],
+      });
+    });
+
+    it("only includes the changed lines and the distinct find widget states of every step in the histories", () => {
+      const codeLines = Array.from({ length: 2000 }, (_, row) => `const value${row} = compute(${row});`);
+      const virtualEditor = new VirtualEditor(codeLines, [{ name: "editor-find", value: "compute" }]);
+      for (let i = 0; i < 150; i++) {
+        virtualEditor.applyActions([
+          { name: "editor-arrow-down", value: "1" },
+          { name: "editor-type", value: "x" },
+        ]);
+      }
+      const snapshot = virtualEditor.getSnapshot(true);
+      const codeLength = virtualEditor.getCode().length;
+      // instead of 302 copies of the code, the steps hold the initial code, 4 keyframes and a changed line each
+      expect(JSON.stringify(snapshot.history?.codeLinesHistory).length).toBeLessThan(6 * codeLength);
+      // besides opening the find widget and leaving its active match, the state only changes when typing changes the matches
+      expect(snapshot.history?.findWidgetStateHistory.states.length).toEqual(153);
+
+      const restoredEditor = VirtualEditor.fromSnapshot(JSON.parse(JSON.stringify(snapshot)));
+      expect(restoredEditor.getCodeAfterEachStep()).toEqual(virtualEditor.getCodeAfterEachStep());
+      expect(restoredEditor.getTimeline()).toEqual(virtualEditor.getTimeline());
+      expect(restoredEditor.applyAction({ name: "editor-type", value: "y" })).toEqual(virtualEditor.applyAction({ name: "editor-type", value: "y" }));
+    });
+  });
+});
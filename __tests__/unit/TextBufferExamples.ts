@@ -0,0 +1,117 @@
+import { PieceTableTextBuffer } from "../../src/PieceTableTextBuffer";
+import { ITextBuffer } from "../../src/types/ITextBuffer";
+import { describe, expect } from "@jest/globals";
+
+// a small deterministic random number generator, so that failures can be reproduced
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+const expectSameText = (buffer: ITextBuffer, expectedLines: Array<string>) => {
+  expect(buffer.getText()).toEqual(expectedLines.join("\n"));
+  expect(buffer.getLineCount()).toEqual(expectedLines.length);
+  expectedLines.forEach((line, row) => {
+    expect(buffer.getLine(row)).toEqual(line);
+    expect(buffer.getLineLength(row)).toEqual(line.length);
+  });
+};
+
+// replaces text in an array of lines the way the virtual editor used to, returning the end of the inserted text
+const replaceInLines = (lines: Array<string>, startRow: number, startCol: number, endRow: number, endCol: number, text: string) => {
+  const newLines = text.split("\n");
+  const end = {
+    row: startRow + newLines.length - 1,
+    col: newLines.length === 1 ? startCol + text.length : newLines[newLines.length - 1].length,
+  };
+  newLines[0] = lines[startRow].substring(0, startCol) + newLines[0];
+  newLines[newLines.length - 1] += lines[endRow].substring(endCol);
+  lines.splice(startRow, endRow - startRow + 1, ...newLines);
+  return end;
+};
+
+describe("PieceTableTextBuffer", () => {
+  describe("Text Buffer Examples", () => {
+    it("replaces text and returns the end of the inserted text", () => {
+      const buffer = new PieceTableTextBuffer(["const a = 1;", "const b = 2;"]);
+      expect(buffer.replace(0, 6, 0, 7, "first")).toEqual({ row: 0, col: 11 });
+      expect(buffer.replace(1, 12, 1, 12, "\r\n// done\n")).toEqual({ row: 3, col: 0 });
+      expect(buffer.getLines()).toEqual(["const first = 1;", "const b = 2;", "// done", ""]);
+      expect(buffer.getText("\r\n")).toEqual("const first = 1;\r\nconst b = 2;\r\n// done\r\n");
+
+      // joining lines
+      expect(buffer.replace(0, 16, 2, 0, " ")).toEqual({ row: 0, col: 17 });
+      expect(buffer.getLines()).toEqual(["const first = 1; // done", ""]);
+    });
+
+    it("converts between offsets and positions", () => {
+      const buffer = new PieceTableTextBuffer("ab\n\ncde");
+      buffer.replace(2, 1, 2, 1, "x\ny");
+      // "ab\n\ncx\nyde"
+      expect(buffer.getOffsetAt(0, 2)).toEqual(2);
+      expect(buffer.getOffsetAt(1, 0)).toEqual(3);
+      expect(buffer.getOffsetAt(3, 1)).toEqual(8);
+      expect(buffer.getPositionAt(2)).toEqual({ row: 0, col: 2 });
+      expect(buffer.getPositionAt(3)).toEqual({ row: 1, col: 0 });
+      expect(buffer.getPositionAt(6)).toEqual({ row: 2, col: 2 });
+      expect(buffer.getPositionAt(10)).toEqual({ row: 3, col: 3 });
+    });
+
+    it("keeps the version id when the text does not change", () => {
+      const buffer = new PieceTableTextBuffer("hello");
+      const versionId = buffer.getVersionId();
+      buffer.replace(0, 1, 0, 3, "el");
+      expect(buffer.getVersionId()).toEqual(versionId);
+      buffer.replace(0, 5, 0, 5, "!");
+      expect(buffer.getVersionId()).not.toEqual(versionId);
+    });
+
+    it("changes a clone without changing the original", () => {
+      const buffer = new PieceTableTextBuffer("");
+      buffer.replace(0, 0, 0, 0, "shared");
+      const clone = buffer.clone();
+      expect(clone.getVersionId()).toEqual(buffer.getVersionId());
+
+      // both keep appending to the same chunk
+      buffer.replace(0, 6, 0, 6, " original\n");
+      clone.replace(0, 6, 0, 6, " clone");
+      expect(buffer.getLines()).toEqual(["shared original", ""]);
+      expect(clone.getLines()).toEqual(["shared clone"]);
+      expect(clone.getVersionId()).not.toEqual(buffer.getVersionId());
+    });
+
+    it("holds the same text as an array of lines after random edits", () => {
+      const random = createRandom(42);
+      const texts = ["", "a", "\n", "xy\nz", "\n\n", "hello world", "}\n  "];
+      const initialText = "function test() {\n  return 1;\n}\n";
+      const buffer = new PieceTableTextBuffer(initialText);
+      const expectedLines = initialText.split("\n");
+      const clones: Array<[ITextBuffer, string]> = [];
+
+      for (let i = 0; i < 500; i++) {
+        const startRow = Math.floor(random() * expectedLines.length);
+        const startCol = Math.floor(random() * (expectedLines[startRow].length + 1));
+        const endRow = startRow + Math.floor(random() * Math.min(3, expectedLines.length - startRow));
+        const endCol =
+          endRow === startRow
+            ? startCol + Math.floor(random() * (expectedLines[endRow].length - startCol + 1))
+            : Math.floor(random() * (expectedLines[endRow].length + 1));
+        const text = texts[Math.floor(random() * texts.length)];
+
+        expect(buffer.replace(startRow, startCol, endRow, endCol, text)).toEqual(
+          replaceInLines(expectedLines, startRow, startCol, endRow, endCol, text)
+        );
+        if (i % 50 === 0) {
+          expectSameText(buffer, expectedLines);
+          const expectedText = expectedLines.join("\n");
+          const offset = Math.floor(random() * (expectedText.length + 1));
+          const linesBefore = expectedText.substring(0, offset).split("\n");
+          expect(buffer.getPositionAt(offset)).toEqual({ row: linesBefore.length - 1, col: linesBefore[linesBefore.length - 1].length });
+          clones.push([buffer.clone(), expectedText]);
+        }
+      }
+      expectSameText(buffer, expectedLines);
+      clones.forEach(([clone, text]) => expect(clone.getText()).toEqual(text));
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { describe, expect } from "@jest/globals";
+
+describe("VirtualEditor", () => {
+  describe("Timeline Examples", () => {
+    it("returns the full state of every step in PHYSICAL coordinates", () => {
+      const virtualEditor = new VirtualEditor(["let a = 1;"]);
+      virtualEditor.applyActions([
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-shift+arrow-left", value: "2" },
+        { name: "editor-show-context-menu", value: "" },
+        { name: "editor-hide-context-menu", value: "" },
+        { name: "editor-type", value: "2;" },
+        { name: "editor-save", value: "" },
+      ]);
+      const timeline = virtualEditor.getTimeline();
+      expect(timeline.length).toEqual(7);
+
+      expect(timeline[0].action).toEqual({ name: "editor-type", value: "let a = 1;" });
+      expect(timeline[0].caretPosition).toEqual({ row: 1, col: 1 });
+      expect(timeline[0].isSaved).toEqual(false);
+
+      expect(timeline[2].highlightCoordinates).toEqual({ start: { row: 1, col: 11 }, end: { row: 1, col: 9 } });
+      expect(timeline[2].highlightedCode).toEqual("1;");
+      expect(timeline[2].isEditorContextMenuOpen).toEqual(false);
+      expect(timeline[3].isEditorContextMenuOpen).toEqual(true);
+      expect(timeline[4].isEditorContextMenuOpen).toEqual(false);
+
+      expect(timeline[5].code).toEqual("let a = 2;");
+      expect(timeline[5].caretPosition).toEqual({ row: 1, col: 11 });
+      expect(timeline[5].highlightCoordinates).toEqual(null);
+      expect(timeline[5].isSaved).toEqual(false);
+      expect(timeline[6].action).toEqual({ name: "editor-save", value: "" });
+      expect(timeline[6].isSaved).toEqual(true);
+    });
+
+    it("returns the same state for a single action index", () => {
+      const virtualEditor = new VirtualEditor(["a", "b"]);
+      virtualEditor.applyActions([
+        { name: "editor-add-cursor-below", value: "1" },
+        { name: "editor-type", value: "-" },
+        { name: "editor-find", value: "-" },
+      ]);
+      expect(virtualEditor.getStateAtActionIndex(2)).toEqual(virtualEditor.getTimeline()[2]);
+      expect(virtualEditor.getStateAtActionIndex(2).cursors.map((cursor) => cursor.caretPosition)).toEqual([
+        { row: 1, col: 2 },
+        { row: 2, col: 2 },
+      ]);
+      expect(virtualEditor.getStateAtActionIndex(3).findWidget.matches.length).toEqual(2);
+      expect(() => virtualEditor.getStateAtActionIndex(4)).toThrow("Action index out of bounds");
+    });
+
+    it("keeps the timeline across a snapshot with histories", () => {
+      const virtualEditor = new VirtualEditor([]);
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "x" },
+        { name: "editor-save", value: "" },
+      ]);
+      const restoredEditor = VirtualEditor.fromSnapshot(virtualEditor.getSnapshot(true));
+      expect(restoredEditor.getTimeline()).toEqual(virtualEditor.getTimeline());
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { describe, expect } from "@jest/globals";
+import { IVirtualEditorAction } from "../../src/types/ExtendedEditorActions";
+
+describe("VirtualEditor", () => {
+  describe("Undo and Redo Examples", () => {
+    it("groups consecutive typing into a single undo step", () => {
+      const virtualEditor = new VirtualEditor([]);
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "const" },
+        { name: "editor-space", value: "1" },
+        { name: "editor-type", value: "a = 1;" },
+        { name: "editor-undo", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 1 });
+    });
+
+    it("starts a new undo group after the caret is moved", () => {
+      const virtualEditor = new VirtualEditor([]);
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "hello" },
+        { name: "editor-arrow-left", value: "5" },
+        { name: "editor-type", value: "// " },
+        { name: "editor-undo", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("hello");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 1 });
+
+      virtualEditor.applyAction({ name: "editor-undo", value: "1" });
+      expect(virtualEditor.getCode()).toEqual("");
+    });
+
+    it("keeps typing and deleting in separate undo groups", () => {
+      const virtualEditor = new VirtualEditor([]);
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "console.lgo" },
+        { name: "editor-backspace", value: "2" },
+        { name: "editor-undo", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("console.lgo");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 12 });
+    });
+
+    it("restores the highlight along with the text", () => {
+      const virtualEditor = new VirtualEditor(["let value = 1;"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-right", value: "12" },
+        { name: "editor-shift+arrow-right", value: "2" },
+        { name: "editor-type", value: "2;" },
+        { name: "editor-undo", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("let value = 1;");
+      expect(virtualEditor.getCurrentHighlightedCode()).toEqual("1;");
+      expect(virtualEditor.getCurrentHighlightCoordinates()).toEqual({
+        start: { row: 1, col: 13 },
+        end: { row: 1, col: 15 },
+      });
+    });
+
+    it("redoes undone edit groups and marks the editor as unsaved", () => {
+      const virtualEditor = new VirtualEditor([]);
+      const actions: Array<IVirtualEditorAction> = [
+        { name: "editor-type", value: "first" },
+        { name: "editor-enter", value: "1" },
+        { name: "editor-type", value: "second" },
+        { name: "editor-save", value: "" },
+        { name: "editor-undo", value: "3" },
+      ];
+      virtualEditor.applyActions(actions);
+      expect(virtualEditor.getCode()).toEqual("");
+      expect(virtualEditor.getIsSaved()).toEqual(false);
+      expect(virtualEditor.getCanRedo()).toEqual(true);
+
+      virtualEditor.applyAction({ name: "editor-redo", value: "2" });
+      expect(virtualEditor.getCode()).toEqual("first\n");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 2, col: 1 });
+    });
+
+    it("drops the redo stack when a new edit happens after an undo", () => {
+      const virtualEditor = new VirtualEditor([]);
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "abc" },
+        { name: "editor-enter", value: "1" },
+        { name: "editor-undo", value: "1" },
+        { name: "editor-type", value: "d" },
+        { name: "editor-redo", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("abcd");
+      expect(virtualEditor.getCanRedo()).toEqual(false);
+
+      // the new edit is its own undo group
+      virtualEditor.applyAction({ name: "editor-undo", value: "1" });
+      expect(virtualEditor.getCode()).toEqual("abc");
+    });
+
+    it("does nothing when there is nothing to undo or redo", () => {
+      const virtualEditor = new VirtualEditor(["unchanged"]);
+      virtualEditor.applyActions([
+        { name: "editor-undo", value: "5" },
+        { name: "editor-redo", value: "5" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("unchanged");
+      expect(virtualEditor.getCanUndo()).toEqual(false);
+      expect(virtualEditor.getCanRedo()).toEqual(false);
+    });
+
+    it("records undo and redo steps in the code history", () => {
+      const virtualEditor = new VirtualEditor([]);
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "oops" },
+        { name: "editor-undo", value: "1" },
+        { name: "editor-redo", value: "1" },
+      ]);
+      expect(virtualEditor.getCodeAfterEachStep()).toEqual(["", "oops", "", "oops"]);
+      expect(virtualEditor.getEditorActionsApplied()[2]).toEqual({ name: "editor-undo", value: "1" });
+    });
+
+    it("only keeps the edited text on the undo stack, however long the code is", () => {
+      const actions: Array<IVirtualEditorAction> = [];
+      for (let i = 0; i < 100; i++) {
+        actions.push({ name: "editor-type", value: `edit ${i}` }, { name: "editor-enter", value: "1" });
+      }
+      actions.push({ name: "editor-arrow-up", value: "50" }, { name: "editor-command-backspace", value: "1" });
+      const getRetainedHistorySize = (initialCodeLines: Array<string>) => {
+        const virtualEditor = new VirtualEditor(initialCodeLines, actions);
+        const { undoStack, redoStack } = virtualEditor.getSnapshot(true);
+        expect(undoStack?.length).toEqual(201);
+        return JSON.stringify([undoStack, redoStack]).length;
+      };
+
+      // the 201 edit groups take up less than a single copy of the long code
+      const longCodeLines = Array.from({ length: 2000 }, (_, index) => `line ${index} of a long file, which is never copied`);
+      const historySize = getRetainedHistorySize(longCodeLines);
+      expect(getRetainedHistorySize(["end"])).toEqual(historySize);
+      expect(historySize).toBeLessThan(longCodeLines.join("\n").length);
+
+      // undoing everything still gets back to the original code
+      const virtualEditor = new VirtualEditor(["end"], actions);
+      virtualEditor.applyAction({ name: "editor-undo", value: "201" });
+      expect(virtualEditor.getCode()).toEqual("end");
+      virtualEditor.applyAction({ name: "editor-redo", value: "201" });
+      expect(virtualEditor.getCode()).toEqual(new VirtualEditor(["end"], actions).getCode());
+    });
+  });
+});
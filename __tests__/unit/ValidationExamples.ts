@@ -0,0 +1,141 @@
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { VirtualEditorValidationError } from "../../src/VirtualEditorValidationError";
+import { IVirtualEditorAction } from "../../src/types/ExtendedEditorActions";
+import { describe, expect } from "@jest/globals";
+
+describe("VirtualEditor", () => {
+  describe("Validation Examples", () => {
+    it("collects wasted and impossible actions in lint mode without changing the result", () => {
+      const actions: Array<IVirtualEditorAction> = [
+        { name: "editor-arrow-up", value: "1" },
+        { name: "editor-arrow-down", value: "5" },
+        { name: "editor-type", value: "!" },
+        { name: "editor-arrow-right", value: "abc" },
+        { name: "author-speak-before", value: "Hello!" },
+        { name: "editor-scroll-down", value: "1" },
+        { name: "editor-redo", value: "1" },
+      ];
+      const lintingEditor = new VirtualEditor(["one", "two"], actions, false, { validation: "lint" });
+      const editor = new VirtualEditor(["one", "two"], actions);
+      expect(lintingEditor.getCodeAfterEachStep()).toEqual(editor.getCodeAfterEachStep());
+
+      const issues = lintingEditor.getValidationIssues();
+      expect(issues.map((issue) => [issue.kind, issue.actionIndex])).toEqual([
+        ["out-of-range-movement", 1],
+        ["out-of-range-movement", 2],
+        ["invalid-repeat-count", 4],
+        ["unrecognized-action", 6],
+        ["out-of-range-movement", 7],
+      ]);
+      expect(issues[1].message).toEqual(
+        "codevideo-virtual-editor: editor-arrow-down is repeated 5 times, but only 1 of them have an effect from row 1, column 1."
+      );
+      // the state is the one the action was applied to
+      expect(issues[2].state.code).toEqual("one\n!two");
+      expect(issues[2].state.caretPosition).toEqual({ row: 2, col: 2 });
+    });
+
+    it("reports actions which changed nothing", () => {
+      const virtualEditor = new VirtualEditor(["const a = 1;"], [], false, { validation: "lint" });
+      virtualEditor.applyActions([
+        { name: "editor-goto-text", value: "missing" },
+        { name: "editor-escape", value: "1" },
+        { name: "editor-copy", value: "" },
+        { name: "editor-copy", value: "" },
+        { name: "editor-command-right", value: "1" },
+      ]);
+      expect(virtualEditor.getValidationIssues().map((issue) => [issue.kind, issue.action.name])).toEqual([
+        ["no-op-action", "editor-goto-text"],
+        ["no-op-action", "editor-escape"],
+        ["no-op-action", "editor-copy"],
+      ]);
+    });
+
+    it("wraps arrow-left onto the end of the line above, even an empty one", () => {
+      const virtualEditor = new VirtualEditor(["", "abc", "d"], [], false, { validation: "strict" });
+      virtualEditor.applyActions([
+        { name: "editor-arrow-down", value: "2" },
+        { name: "editor-arrow-left", value: "1" },
+      ]);
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 2, col: 4 });
+      virtualEditor.applyAction({ name: "editor-arrow-left", value: "4" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 1 });
+      expect(() => virtualEditor.applyAction({ name: "editor-arrow-left", value: "1" })).toThrow(
+        "codevideo-virtual-editor: editor-arrow-left is repeated 1 times, but only 0 of them have an effect from row 1, column 1."
+      );
+    });
+
+    it("throws in strict mode without applying the action", () => {
+      const virtualEditor = new VirtualEditor(["first", "second"], [], false, { validation: "strict" });
+      virtualEditor.applyActions([
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-shift+arrow-right", value: "3" },
+      ]);
+
+      let error: unknown;
+      try {
+        virtualEditor.applyAction({ name: "editor-backspace", value: "NaN" });
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(VirtualEditorValidationError);
+      const validationError = error as VirtualEditorValidationError;
+      expect(validationError.kind).toEqual("invalid-repeat-count");
+      expect(validationError.actionIndex).toEqual(3);
+      expect(validationError.action).toEqual({ name: "editor-backspace", value: "NaN" });
+      expect(validationError.state.highlightedCode).toEqual("sec");
+
+      // the editor is unchanged, and the failed action is not recorded
+      expect(virtualEditor.getCode()).toEqual("first\nsecond");
+      expect(virtualEditor.getCurrentHighlightedCode()).toEqual("sec");
+      expect(virtualEditor.getActionsApplied().length).toEqual(3);
+      expect(() => virtualEditor.applyAction({ name: "editor-undo", value: "1" })).toThrow(
+        "codevideo-virtual-editor: editor-undo is repeated 1 times, but only 0 of them have an effect from row 2, column 4."
+      );
+      expect(() => virtualEditor.applyAction({ name: "editor-command-right", value: "1" })).not.toThrow();
+      expect(() => virtualEditor.applyAction({ name: "editor-command-right", value: "1" })).toThrow(VirtualEditorValidationError);
+      expect(virtualEditor.getActionsApplied().length).toEqual(4);
+    });
+
+    it("only throws in strict mode for changing nothing when moving or deleting", () => {
+      const virtualEditor = new VirtualEditor(["const a = 1;"], [], false, { validation: "strict" });
+      const harmlessActions: Array<IVirtualEditorAction> = [
+        { name: "author-speak-before", value: "Let's save this." },
+        { name: "editor-type", value: "" },
+        { name: "editor-save", value: "1" },
+        { name: "editor-save", value: "1" },
+        { name: "editor-hide-context-menu", value: "1" },
+        { name: "editor-escape", value: "1" },
+        { name: "editor-close-find", value: "1" },
+        { name: "editor-copy", value: "" },
+        { name: "editor-copy", value: "" },
+        { name: "editor-goto-line", value: "1" },
+        { name: "mouse-left-click", value: "" },
+      ];
+      expect(() => virtualEditor.applyActions(harmlessActions)).not.toThrow();
+      expect(virtualEditor.getActionsApplied().length).toEqual(harmlessActions.length + 1);
+
+      // moving or deleting is wrong when nothing moves or gets deleted
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "// " },
+        { name: "editor-command-left", value: "1" },
+      ]);
+      expect(() => virtualEditor.applyAction({ name: "editor-command-left", value: "1" })).toThrow(VirtualEditorValidationError);
+      expect(() => virtualEditor.applyAction({ name: "editor-option-backspace", value: "1" })).toThrow(
+        "codevideo-virtual-editor: editor-option-backspace with value '1' changed nothing."
+      );
+
+      // when linting, the harmless actions are still reported
+      const lintingEditor = new VirtualEditor(["const a = 1;"], harmlessActions, false, { validation: "lint" });
+      expect(lintingEditor.getValidationIssues().map((issue) => issue.action.name)).toEqual([
+        "editor-type",
+        "editor-save",
+        "editor-hide-context-menu",
+        "editor-escape",
+        "editor-close-find",
+        "editor-copy",
+        "editor-goto-line",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { VirtualEditor } from "../../src/VirtualEditor";
+import { describe, expect } from "@jest/globals";
+
+describe("VirtualEditor", () => {
+  describe("Word Navigation Examples", () => {
+    it("moves the caret to the end of the next word with option-arrow-right", () => {
+      const virtualEditor = new VirtualEditor(["const foo = bar.baz();"]);
+      virtualEditor.applyAction({ name: "editor-option-arrow-right", value: "1" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 6 });
+      virtualEditor.applyAction({ name: "editor-option-arrow-right", value: "2" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 12 });
+      // the single '.' between two words is skipped over
+      virtualEditor.applyAction({ name: "editor-option-arrow-right", value: "2" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 20 });
+    });
+
+    it("moves the caret to the start of the previous word with option-arrow-left", () => {
+      const virtualEditor = new VirtualEditor(["const foo = bar.baz();"]);
+      virtualEditor.applyActions([
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-option-arrow-left", value: "1" },
+      ]);
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 20 });
+      virtualEditor.applyAction({ name: "editor-option-arrow-left", value: "1" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 17 });
+      virtualEditor.applyAction({ name: "editor-option-arrow-left", value: "1" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 13 });
+    });
+
+    it("continues word navigation on the neighbouring lines", () => {
+      const virtualEditor = new VirtualEditor(["first line", "second line"]);
+      virtualEditor.applyActions([
+        { name: "editor-command-right", value: "1" },
+        { name: "editor-option-arrow-right", value: "1" },
+      ]);
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 2, col: 7 });
+      virtualEditor.applyActions([
+        { name: "editor-command-left", value: "1" },
+        { name: "editor-option-arrow-left", value: "1" },
+      ]);
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 7 });
+    });
+
+    it("highlights by word with shift+option arrows", () => {
+      const virtualEditor = new VirtualEditor(["return someValue;"]);
+      virtualEditor.applyAction({ name: "editor-shift+option-arrow-right", value: "2" });
+      expect(virtualEditor.getCurrentHighlightedCode()).toEqual("return someValue");
+      virtualEditor.applyAction({ name: "editor-shift+option-arrow-left", value: "1" });
+      expect(virtualEditor.getCurrentHighlightedCode()).toEqual("return ");
+    });
+
+    it("deletes the previous word with option-backspace", () => {
+      const virtualEditor = new VirtualEditor([]);
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "console.log(message" },
+        { name: "editor-option-backspace", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("console.log(");
+      virtualEditor.applyAction({ name: "editor-option-backspace", value: "2" });
+      expect(virtualEditor.getCode()).toEqual("console.");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 9 });
+    });
+
+    it("deletes a run of whitespace on its own with option-backspace", () => {
+      const virtualEditor = new VirtualEditor([]);
+      virtualEditor.applyActions([
+        { name: "editor-type", value: "const x =    " },
+        { name: "editor-option-backspace", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("const x =");
+    });
+
+    it("deletes to the start of the line with command-backspace", () => {
+      const virtualEditor = new VirtualEditor(["first", "second line"]);
+      virtualEditor.applyActions([
+        { name: "editor-arrow-down", value: "1" },
+        { name: "editor-arrow-right", value: "7" },
+        { name: "editor-command-backspace", value: "1" },
+      ]);
+      expect(virtualEditor.getCode()).toEqual("first\nline");
+      virtualEditor.applyAction({ name: "editor-command-backspace", value: "1" });
+      expect(virtualEditor.getCode()).toEqual("firstline");
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 6 });
+    });
+
+    it("uses the configured word separators", () => {
+      const virtualEditor = new VirtualEditor(["kebab-case-name"]);
+      virtualEditor.setWordSeparators("");
+      virtualEditor.applyAction({ name: "editor-option-arrow-right", value: "1" });
+      expect(virtualEditor.getCurrentCaretPosition()).toEqual({ row: 1, col: 16 });
+    });
+  });
+});
@@ -1,5 +1,5 @@
 module.exports = {
   transformIgnorePatterns: [
-      "<rootDir>/node_modules/(?!@fullstackcraftllc/codevideo-types)/"
+      "<rootDir>/node_modules/(?!@fullstackcraftllc/codevideo-types|codevideo-virtual-editor-1.7.1)/"
   ]
 };
\ No newline at end of file
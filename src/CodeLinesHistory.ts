@@ -0,0 +1,175 @@
+import { ICodeLinesDelta, ICodeLinesHistorySnapshot } from "./types/IVirtualEditorSnapshot";
+
+/**
+ * Replaces deletedCount lines starting at startRow by insertedLines, in place unless there are too many inserted lines to pass them to splice as arguments.
+ */
+const spliceLines = (lines: Array<string>, startRow: number, deletedCount: number, insertedLines: Array<string>): Array<string> => {
+  if (insertedLines.length <= 10000) {
+    lines.splice(startRow, deletedCount, ...insertedLines);
+    return lines;
+  }
+  return lines.slice(0, startRow).concat(insertedLines, lines.slice(startRow + deletedCount));
+};
+
+/**
+ * Represents the code lines after every step of a virtual editor. Instead of a full copy per step, only the lines that changed are stored, with a full copy (a keyframe) every keyframeInterval steps to keep looking up any step fast.
+ */
+export class CodeLinesHistory {
+  /**
+   * The number of steps between two keyframes.
+   * @private
+   */
+  private keyframeInterval: number;
+
+  /**
+   * The full code lines of every keyframeInterval-th step, i.e. keyframes[k] holds the code lines of step k * keyframeInterval.
+   * @private
+   */
+  private keyframes: Array<Array<string>> = [];
+
+  /**
+   * The change from the previous step for every step - the first step has no previous step, so its delta inserts all of its lines.
+   * @private
+   */
+  private deltas: Array<ICodeLinesDelta> = [];
+
+  /**
+   * The code lines of the last step, which the delta of the next step is computed against.
+   * @private
+   */
+  private latestCodeLines: Array<string> = [];
+
+  /**
+   * The step that was looked up last, so that looking up the steps in order only applies a single delta per step.
+   * @private
+   */
+  private cachedIndex = -1;
+  private cachedCodeLines: Array<string> = [];
+
+  constructor(keyframeInterval: number = 100) {
+    this.keyframeInterval = Math.max(1, Math.floor(keyframeInterval));
+  }
+
+  /**
+   * Adds the code lines of the next step to the history.
+   * @param codeLines The code lines of the step. They are not kept, so they can be changed afterwards.
+   */
+  push(codeLines: Array<string>) {
+    const previousCodeLines = this.latestCodeLines;
+
+    // only the lines between the unchanged lines at the start and at the end have changed
+    const maxUnchangedCount = Math.min(previousCodeLines.length, codeLines.length);
+    let unchangedStartCount = 0;
+    while (unchangedStartCount < maxUnchangedCount && previousCodeLines[unchangedStartCount] === codeLines[unchangedStartCount]) {
+      unchangedStartCount++;
+    }
+    let unchangedEndCount = 0;
+    while (
+      unchangedEndCount < maxUnchangedCount - unchangedStartCount &&
+      previousCodeLines[previousCodeLines.length - 1 - unchangedEndCount] === codeLines[codeLines.length - 1 - unchangedEndCount]
+    ) {
+      unchangedEndCount++;
+    }
+
+    this.pushChangedLines(
+      unchangedStartCount,
+      previousCodeLines.length - unchangedStartCount - unchangedEndCount,
+      codeLines.slice(unchangedStartCount, codeLines.length - unchangedEndCount)
+    );
+  }
+
+  /**
+   * Adds the next step to the history by the lines that changed since the previous step, which saves comparing every line when the changed lines are already known.
+   * @param startRow The first row that changed.
+   * @param deletedCount The number of lines of the previous step that changed, starting at startRow.
+   * @param insertedLines The lines that replace them. They are not kept, so they can be changed afterwards.
+   */
+  pushChangedLines(startRow: number, deletedCount: number, insertedLines: Array<string>) {
+    this.deltas.push({ startRow, deletedCount, insertedLines: insertedLines.slice() });
+    this.latestCodeLines = spliceLines(this.latestCodeLines, startRow, deletedCount, insertedLines);
+    if ((this.deltas.length - 1) % this.keyframeInterval === 0) {
+      this.keyframes.push(this.latestCodeLines.slice());
+    }
+  }
+
+  /**
+   * Returns the code lines of a step.
+   * @param index The index of the step.
+   * @returns A copy of the code lines of the step.
+   * @throws An error if the index is out of bounds.
+   */
+  get(index: number): Array<string> {
+    if (index < 0 || index > this.deltas.length - 1) {
+      throw new Error("Action index out of bounds");
+    }
+
+    // start from the closest keyframe, unless the step looked up last is closer
+    const keyframeIndex = Math.floor(index / this.keyframeInterval);
+    let currentIndex = keyframeIndex * this.keyframeInterval;
+    let codeLines = this.keyframes[keyframeIndex].slice();
+    if (this.cachedIndex > currentIndex && this.cachedIndex <= index) {
+      currentIndex = this.cachedIndex;
+      codeLines = this.cachedCodeLines;
+    }
+    while (currentIndex < index) {
+      currentIndex++;
+      const delta = this.deltas[currentIndex];
+      codeLines = spliceLines(codeLines, delta.startRow, delta.deletedCount, delta.insertedLines);
+    }
+
+    this.cachedIndex = index;
+    this.cachedCodeLines = codeLines;
+    return codeLines.slice();
+  }
+
+  /**
+   * Returns the code lines of the last step, without looking them up.
+   * @returns A copy of the code lines of the last step.
+   */
+  getLatest(): Array<string> {
+    return this.latestCodeLines.slice();
+  }
+
+  /**
+   * Returns the number of steps in the history.
+   * @returns The number of steps in the history.
+   */
+  getLength(): number {
+    return this.deltas.length;
+  }
+
+  /**
+   * Returns the deltas and keyframes of the history, which CodeLinesHistory.fromSnapshot turns back into an identical history. Unlike toArray, this holds only the lines that changed in each step, along with the keyframes.
+   * @returns The snapshot of the history, which shares no objects with it.
+   */
+  toSnapshot(): ICodeLinesHistorySnapshot {
+    return {
+      keyframeInterval: this.keyframeInterval,
+      keyframes: this.keyframes.map((keyframe) => keyframe.slice()),
+      deltas: this.deltas.map((delta) => ({ ...delta, insertedLines: delta.insertedLines.slice() })),
+    };
+  }
+
+  /**
+   * Creates a history from a snapshot returned by toSnapshot, without comparing the code lines of its steps again.
+   * @param snapshot The snapshot to restore.
+   * @returns A history identical to the one the snapshot was taken from.
+   */
+  static fromSnapshot(snapshot: ICodeLinesHistorySnapshot): CodeLinesHistory {
+    const codeLinesHistory = new CodeLinesHistory(snapshot.keyframeInterval);
+    codeLinesHistory.keyframes = snapshot.keyframes.map((keyframe) => keyframe.slice());
+    codeLinesHistory.deltas = snapshot.deltas.map((delta) => ({ ...delta, insertedLines: delta.insertedLines.slice() }));
+    if (codeLinesHistory.deltas.length > 0) {
+      codeLinesHistory.latestCodeLines = codeLinesHistory.get(codeLinesHistory.deltas.length - 1);
+    }
+    return codeLinesHistory;
+  }
+
+  /**
+   * Returns the code lines of every step. This holds a full copy of the code lines per step, so prefer get for long histories.
+   * @returns The code lines of every step.
+   */
+  toArray(): Array<Array<string>> {
+    return this.deltas.map((_, index) => this.get(index));
+  }
+}
@@ -0,0 +1,342 @@
+import { IEditorPosition } from "@fullstackcraftllc/codevideo-types";
+import { ITextBuffer } from "./types/ITextBuffer";
+import { getNextTextBufferVersionId } from "./utils/getNextTextBufferVersionId";
+
+/**
+ * A part of the text, which is the text between start and start + length of a chunk.
+ */
+interface IPiece {
+  chunkIndex: number;
+  start: number;
+  length: number;
+  lineFeedCount: number;
+}
+
+/**
+ * The maximum length of a chunk that inserted text is appended to - longer inserted text gets a chunk of its own.
+ */
+const MaxAppendableChunkLength = 65536;
+
+/**
+ * Returns the offsets of every '\n' in a text.
+ */
+const getLineFeedOffsets = (text: string, offsetOfText: number = 0): Array<number> => {
+  const offsets: Array<number> = [];
+  let offset = text.indexOf("\n");
+  while (offset !== -1) {
+    offsets.push(offsetOfText + offset);
+    offset = text.indexOf("\n", offset + 1);
+  }
+  return offsets;
+};
+
+/**
+ * Returns the index of the first value in an ascending array which is greater than or equal to the given value.
+ */
+const lowerBound = (values: Array<number>, value: number): number => {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (values[middle] < value) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+/**
+ * Represents a text buffer which holds the text as a piece table: the original and the inserted text are kept in chunks that are never changed - only appended to - and the text is the sequence of pieces of those chunks.
+ * An edit only splits the pieces at its start and end, so its cost does not depend on the length of the text or of the edited line, and a copy only copies the pieces.
+ */
+export class PieceTableTextBuffer implements ITextBuffer {
+  /**
+   * The chunks the pieces point into.
+   * @private
+   */
+  private chunks: Array<string> = [];
+
+  /**
+   * The offsets of every '\n' in every chunk.
+   * @private
+   */
+  private chunkLineFeedOffsets: Array<Array<number>> = [];
+
+  /**
+   * The index of the chunk inserted text is appended to, or -1 if inserted text starts a new chunk.
+   * @private
+   */
+  private appendableChunkIndex = -1;
+
+  /**
+   * The pieces which make up the text, in order. Pieces are never empty, and never changed once created.
+   * @private
+   */
+  private pieces: Array<IPiece> = [];
+
+  /**
+   * The offset of every piece and the number of '\n' before every piece, or null until they are needed after an edit.
+   * @private
+   */
+  private pieceOffsets: Array<number> | null = null;
+  private pieceLineFeedCounts: Array<number> | null = null;
+
+  /**
+   * The length of the text and the number of '\n' in it.
+   * @private
+   */
+  private length = 0;
+  private lineFeedCount = 0;
+
+  /**
+   * The version id of the current text.
+   * @private
+   */
+  private versionId: number;
+
+  /**
+   * The line and the whole text looked up last, which stay valid until the next edit.
+   * @private
+   */
+  private cachedLineRow = -1;
+  private cachedLine = "";
+  private cachedText: string | null = null;
+
+  /**
+   * @param text The initial text, either as a string or as lines.
+   */
+  constructor(text: string | Array<string> = "") {
+    const normalizedText = (typeof text === "string" ? text : text.join("\n")).replace(/\r\n?/g, "\n");
+    if (normalizedText.length > 0) {
+      this.chunks.push(normalizedText);
+      this.chunkLineFeedOffsets.push(getLineFeedOffsets(normalizedText));
+      this.pieces.push(this.createPiece(0, 0, normalizedText.length));
+      this.length = normalizedText.length;
+      this.lineFeedCount = this.pieces[0].lineFeedCount;
+    }
+    this.versionId = getNextTextBufferVersionId();
+  }
+
+  getLineCount(): number {
+    return this.lineFeedCount + 1;
+  }
+
+  getLine(row: number): string {
+    if (this.cachedLineRow !== row) {
+      const lineStartOffset = this.getLineStartOffset(row);
+      this.cachedLine = this.getTextBetween(lineStartOffset, lineStartOffset + this.getLineLength(row));
+      this.cachedLineRow = row;
+    }
+    return this.cachedLine;
+  }
+
+  getLineLength(row: number): number {
+    const lineEndOffset = row >= this.lineFeedCount ? this.length : this.getLineStartOffset(row + 1) - 1;
+    return lineEndOffset - this.getLineStartOffset(row);
+  }
+
+  getLines(): Array<string> {
+    return this.getText().split("\n");
+  }
+
+  getText(endOfLine: string = "\n"): string {
+    if (this.cachedText === null) {
+      this.cachedText = this.getTextBetween(0, this.length);
+    }
+    return endOfLine === "\n" ? this.cachedText : this.cachedText.split("\n").join(endOfLine);
+  }
+
+  getOffsetAt(row: number, col: number): number {
+    return this.getLineStartOffset(row) + col;
+  }
+
+  getPositionAt(offset: number): IEditorPosition {
+    offset = Math.max(0, Math.min(offset, this.length));
+    if (this.pieces.length === 0) {
+      return { row: 0, col: 0 };
+    }
+    this.updatePieceIndex();
+    const pieceIndex = this.getPieceIndexAt(offset === this.length ? offset - 1 : offset);
+    const piece = this.pieces[pieceIndex];
+    const lineFeedsInPiece = this.countLineFeeds(
+      piece.chunkIndex,
+      piece.start,
+      piece.start + offset - this.pieceOffsets![pieceIndex]
+    );
+    const row = this.pieceLineFeedCounts![pieceIndex] + lineFeedsInPiece;
+    return { row, col: offset - this.getLineStartOffset(row) };
+  }
+
+  replace(startRow: number, startCol: number, endRow: number, endCol: number, text: string): IEditorPosition {
+    const normalizedText = text.replace(/\r\n?/g, "\n");
+    const startOffset = this.getOffsetAt(startRow, startCol);
+    const endOffset = this.getOffsetAt(endRow, endCol);
+    const insertedLineFeedOffsets = getLineFeedOffsets(normalizedText);
+    const insertedLineFeedCount = insertedLineFeedOffsets.length;
+    const end = {
+      row: startRow + insertedLineFeedCount,
+      col:
+        insertedLineFeedCount === 0
+          ? startCol + normalizedText.length
+          : normalizedText.length - insertedLineFeedOffsets[insertedLineFeedCount - 1] - 1,
+    };
+
+    // replacing text with the same text keeps the version id
+    if (endOffset - startOffset === normalizedText.length && this.getTextBetween(startOffset, endOffset) === normalizedText) {
+      return end;
+    }
+
+    this.updatePieceIndex();
+    const startPieceIndex = this.getPieceIndexAt(startOffset);
+    const endPieceIndex = this.getPieceIndexAt(endOffset);
+    const newPieces: Array<IPiece> = [];
+    let firstReplacedPieceIndex = startPieceIndex;
+
+    // the pieces at the start and at the end are split, keeping their text before the start and after the end
+    if (startPieceIndex < this.pieces.length && startOffset > this.pieceOffsets![startPieceIndex]) {
+      const piece = this.pieces[startPieceIndex];
+      newPieces.push(this.createPiece(piece.chunkIndex, piece.start, startOffset - this.pieceOffsets![startPieceIndex]));
+    }
+    if (normalizedText.length > 0) {
+      const { chunkIndex, start } = this.appendToChunks(normalizedText);
+      const previousPiece =
+        newPieces.length > 0 ? newPieces[0] : firstReplacedPieceIndex > 0 ? this.pieces[firstReplacedPieceIndex - 1] : null;
+      // text typed right after the previously inserted text just extends its piece
+      if (previousPiece && previousPiece.chunkIndex === chunkIndex && previousPiece.start + previousPiece.length === start) {
+        const extendedPiece = this.createPiece(chunkIndex, previousPiece.start, previousPiece.length + normalizedText.length);
+        if (newPieces.length > 0) {
+          newPieces[0] = extendedPiece;
+        } else {
+          firstReplacedPieceIndex--;
+          newPieces.push(extendedPiece);
+        }
+      } else {
+        newPieces.push(this.createPiece(chunkIndex, start, normalizedText.length));
+      }
+    }
+    let lastReplacedPieceIndex = endPieceIndex;
+    if (endPieceIndex < this.pieces.length && endOffset > this.pieceOffsets![endPieceIndex]) {
+      const piece = this.pieces[endPieceIndex];
+      const keptStart = endOffset - this.pieceOffsets![endPieceIndex];
+      newPieces.push(this.createPiece(piece.chunkIndex, piece.start + keptStart, piece.length - keptStart));
+      lastReplacedPieceIndex++;
+    }
+    this.pieces.splice(firstReplacedPieceIndex, lastReplacedPieceIndex - firstReplacedPieceIndex, ...newPieces);
+
+    this.length += normalizedText.length - (endOffset - startOffset);
+    this.lineFeedCount += insertedLineFeedCount - (endRow - startRow);
+    this.pieceOffsets = null;
+    this.pieceLineFeedCounts = null;
+    this.cachedLineRow = -1;
+    this.cachedText = null;
+    this.versionId = getNextTextBufferVersionId();
+    return end;
+  }
+
+  getVersionId(): number {
+    return this.versionId;
+  }
+
+  clone(): ITextBuffer {
+    const clone = new PieceTableTextBuffer();
+    // chunks are only ever appended to, so only the offsets of the chunk that is still appended to need a copy
+    clone.chunks = this.chunks.slice();
+    clone.chunkLineFeedOffsets = this.chunkLineFeedOffsets.map((offsets, chunkIndex) =>
+      chunkIndex === this.appendableChunkIndex ? offsets.slice() : offsets
+    );
+    clone.appendableChunkIndex = this.appendableChunkIndex;
+    clone.pieces = this.pieces.slice();
+    clone.length = this.length;
+    clone.lineFeedCount = this.lineFeedCount;
+    clone.versionId = this.versionId;
+    clone.cachedText = this.cachedText;
+    return clone;
+  }
+
+  // Helper function to create a piece of a chunk, counting the '\n' in it
+  private createPiece(chunkIndex: number, start: number, length: number): IPiece {
+    return { chunkIndex, start, length, lineFeedCount: this.countLineFeeds(chunkIndex, start, start + length) };
+  }
+
+  // Helper function to count the '\n' between two offsets of a chunk
+  private countLineFeeds(chunkIndex: number, start: number, end: number): number {
+    const offsets = this.chunkLineFeedOffsets[chunkIndex];
+    return lowerBound(offsets, end) - lowerBound(offsets, start);
+  }
+
+  // Helper function to append inserted text to the chunks, returning where it was appended
+  private appendToChunks(text: string): { chunkIndex: number; start: number } {
+    const chunkIndex = this.appendableChunkIndex;
+    if (chunkIndex !== -1 && this.chunks[chunkIndex].length + text.length <= MaxAppendableChunkLength) {
+      const start = this.chunks[chunkIndex].length;
+      this.chunks[chunkIndex] += text;
+      this.chunkLineFeedOffsets[chunkIndex].push(...getLineFeedOffsets(text, start));
+      return { chunkIndex, start };
+    }
+    this.chunks.push(text);
+    this.chunkLineFeedOffsets.push(getLineFeedOffsets(text));
+    this.appendableChunkIndex = text.length < MaxAppendableChunkLength ? this.chunks.length - 1 : -1;
+    return { chunkIndex: this.chunks.length - 1, start: 0 };
+  }
+
+  // Helper function to compute the offset of every piece and the number of '\n' before every piece, if an edit made them stale
+  private updatePieceIndex() {
+    if (this.pieceOffsets !== null) {
+      return;
+    }
+    const pieceOffsets: Array<number> = new Array(this.pieces.length);
+    const pieceLineFeedCounts: Array<number> = new Array(this.pieces.length);
+    let offset = 0;
+    let lineFeedCount = 0;
+    for (let i = 0; i < this.pieces.length; i++) {
+      pieceOffsets[i] = offset;
+      pieceLineFeedCounts[i] = lineFeedCount;
+      offset += this.pieces[i].length;
+      lineFeedCount += this.pieces[i].lineFeedCount;
+    }
+    this.pieceOffsets = pieceOffsets;
+    this.pieceLineFeedCounts = pieceLineFeedCounts;
+  }
+
+  // Helper function to get the index of the piece containing an offset, or the number of pieces for the offset at the end of the text
+  private getPieceIndexAt(offset: number): number {
+    if (offset >= this.length) {
+      return this.pieces.length;
+    }
+    return lowerBound(this.pieceOffsets!, offset + 1) - 1;
+  }
+
+  // Helper function to get the offset of the start of a line
+  private getLineStartOffset(row: number): number {
+    if (row <= 0) {
+      return 0;
+    }
+    this.updatePieceIndex();
+    // the line starts after the row-th '\n', which is in the last piece with fewer '\n' before it
+    const pieceIndex = lowerBound(this.pieceLineFeedCounts!, row) - 1;
+    const piece = this.pieces[pieceIndex];
+    const offsets = this.chunkLineFeedOffsets[piece.chunkIndex];
+    const lineFeedOffset = offsets[lowerBound(offsets, piece.start) + row - this.pieceLineFeedCounts![pieceIndex] - 1];
+    return this.pieceOffsets![pieceIndex] + lineFeedOffset - piece.start + 1;
+  }
+
+  // Helper function to get the text between two offsets
+  private getTextBetween(startOffset: number, endOffset: number): string {
+    if (startOffset >= endOffset) {
+      return "";
+    }
+    this.updatePieceIndex();
+    // concatenating (instead of joining) lets the JavaScript engine defer copying the pieces until the text is actually read
+    let text = "";
+    for (let i = this.getPieceIndexAt(startOffset); i < this.pieces.length && this.pieceOffsets![i] < endOffset; i++) {
+      const piece = this.pieces[i];
+      const pieceOffset = this.pieceOffsets![i];
+      const start = piece.start + Math.max(0, startOffset - pieceOffset);
+      const end = piece.start + Math.min(piece.length, endOffset - pieceOffset);
+      text += this.chunks[piece.chunkIndex].substring(start, end);
+    }
+    return text;
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Represents a virtual clipboard which can be shared between virtual editors, so that text copied or cut in one editor can be pasted into another.
+ */
+export class VirtualClipboard {
+  /**
+   * The text currently held by the clipboard.
+   * @private
+   */
+  private text = "";
+
+  /**
+   * Represents whether the text was copied or cut from a line without a highlight, in which case it is pasted as a whole line.
+   * @private
+   */
+  private isWholeLine = false;
+
+  /**
+   * Sets the text held by the clipboard.
+   * @param text The text to hold.
+   * @param isWholeLine Whether the text is a whole line copied or cut without a highlight.
+   */
+  setText(text: string, isWholeLine?: boolean) {
+    this.text = text;
+    this.isWholeLine = isWholeLine ? isWholeLine : false;
+  }
+
+  /**
+   * Returns the text held by the clipboard.
+   * @returns The text held by the clipboard.
+   */
+  getText(): string {
+    return this.text;
+  }
+
+  /**
+   * Returns if the text held by the clipboard is a whole line copied or cut without a highlight.
+   * @returns If the text held by the clipboard is a whole line.
+   */
+  getIsWholeLine(): boolean {
+    return this.isWholeLine;
+  }
+
+  /**
+   * Clears the clipboard.
+   */
+  clear() {
+    this.text = "";
+    this.isWholeLine = false;
+  }
+}
@@ -2,10 +2,119 @@ import {
   EditorAction,
   IAction,
   isEditorAction,
-  isRepeatableAction,
   IEditorPosition,
   IEditor,
 } from "@fullstackcraftllc/codevideo-types";
+import { ActionNamesIgnoringRepeatCount, IVirtualEditorAction } from "./types/ExtendedEditorActions";
+import { IVirtualEditorCursor } from "./types/IVirtualEditorCursor";
+import { IFindWidgetState } from "./types/IFindWidgetState";
+import { IVirtualEditorState } from "./types/IVirtualEditorState";
+import { IVirtualEditorValidationIssue, ValidationIssueKind } from "./types/IVirtualEditorValidationIssue";
+import { ICodeDiff } from "./types/ICodeDiff";
+import {
+  EditGroupKind,
+  ICursorState,
+  IEditGroup,
+  IEditState,
+  IFindWidgetStateHistorySnapshot,
+  ITextEdit,
+  IVirtualEditorSnapshot,
+} from "./types/IVirtualEditorSnapshot";
+import { VirtualClipboard } from "./VirtualClipboard";
+import { VirtualEditorValidationError } from "./VirtualEditorValidationError";
+import { CodeLinesHistory } from "./CodeLinesHistory";
+import { PieceTableTextBuffer } from "./PieceTableTextBuffer";
+import { ITextBuffer } from "./types/ITextBuffer";
+import {
+  DefaultIncreaseIndentAfter,
+  DefaultVirtualEditorOptions,
+  IncreaseIndentAfterByLanguage,
+  IVirtualEditorOptions,
+} from "./types/IVirtualEditorOptions";
+import { findPreviousWordStart } from "./utils/findPreviousWordStart";
+import { findNextWordEnd } from "./utils/findNextWordEnd";
+import { getWordCharacterClass } from "./utils/getWordCharacterClass";
+import { findWordAt } from "./utils/findWordAt";
+import { mapPositionThroughEdit } from "./utils/mapPositionThroughEdit";
+import { expandReplaceText, findMatches, IFindMatchWithCaptures } from "./utils/findMatches";
+import { parseGotoTextValue } from "./utils/parseGotoTextValue";
+import { isRepeatableVirtualEditorAction } from "./utils/isRepeatableVirtualEditorAction";
+import { getCodeDiff } from "./utils/getCodeDiff";
+
+/**
+ * The brackets which are closed automatically when the autoClosingBrackets option is enabled, keyed by their opening bracket.
+ */
+const AutoClosingBracketPairs: Record<string, string> = {
+  "(": ")",
+  "[": "]",
+  "{": "}",
+};
+
+/**
+ * The quotes which are closed automatically when the autoClosingQuotes option is enabled.
+ */
+const AutoClosingQuotes: Array<string> = ['"', "'", "`"];
+
+/**
+ * Sorts cursors by their caret positions, from the top left to the bottom right of the editor.
+ */
+const compareCursors = (a: ICursorState, b: ICursorState): number =>
+  a.caretRow !== b.caretRow ? a.caretRow - b.caretRow : a.caretCol - b.caretCol;
+
+/**
+ * Converts the LOGICAL state of a cursor to its PHYSICAL caret position and highlight coordinates.
+ */
+const toPhysicalCursor = (cursor: ICursorState): IVirtualEditorCursor => ({
+  caretPosition: { row: cursor.caretRow + 1, col: cursor.caretCol + 1 },
+  highlightCoordinates:
+    cursor.highlightStartRow === -1
+      ? null
+      : {
+          start: { row: cursor.highlightStartRow + 1, col: cursor.highlightStartCol + 1 },
+          end: { row: cursor.caretRow + 1, col: cursor.caretCol + 1 },
+        },
+});
+
+/**
+ * Copies an edit group of the undo and redo stacks, so that it shares no objects with the original.
+ */
+const copyEditGroup = (editGroup: IEditGroup): IEditGroup => {
+  const copyEditState = (editState: IEditState): IEditState => ({
+    ...editState,
+    secondaryCursors: editState.secondaryCursors.map((cursor) => ({ ...cursor })),
+  });
+  return {
+    kind: editGroup.kind,
+    edits: editGroup.edits.map((edit) => ({ ...edit })),
+    before: copyEditState(editGroup.before),
+    after: copyEditState(editGroup.after),
+  };
+};
+
+/**
+ * Returns the LOGICAL position at the end of a text starting at a LOGICAL position, the text's lines being separated by '\n'.
+ */
+const getTextEndPosition = (row: number, col: number, text: string): IEditorPosition => {
+  const lastLineFeedIndex = text.lastIndexOf("\n");
+  if (lastLineFeedIndex === -1) {
+    return { row, col: col + text.length };
+  }
+  return { row: row + text.split("\n").length - 1, col: text.length - lastLineFeedIndex - 1 };
+};
+
+/**
+ * Copies a find widget state, so that it shares no objects with the original.
+ */
+const copyFindWidgetState = (findWidgetState: IFindWidgetState): IFindWidgetState => ({
+  ...findWidgetState,
+  matches: findWidgetState.matches.map((match) => ({ start: { ...match.start }, end: { ...match.end } })),
+});
+
+/**
+ * Checks if the first LOGICAL position comes before the second one.
+ */
+const isPositionBefore = (a: IEditorPosition, b: IEditorPosition): boolean =>
+  a.row < b.row || (a.row === b.row && a.col < b.col);
 
 /**
  * Represents a virtual editor that can be manipulated by a series of actions.
@@ -35,37 +144,292 @@ export class VirtualEditor {
    */
   private highlightStartCol = -1;
 
-  private codeLines: Array<string>;
+  /**
+   * Represents the LOGICAL (0,0) referenced column the caret returns to when moving vertically through shorter lines. -1 represents no desired column, i.e. the current caret column is used.
+   * @private
+   */
+  private desiredCol = -1;
+
+  /**
+   * Represents the cursors besides the primary cursor (which is made up of the caret and highlight fields above), added with the add cursor and add next occurrence actions.
+   * @private
+   */
+  private secondaryCursors: Array<ICursorState> = [];
+
+  /**
+   * Represents the text of the editor.
+   * @private
+   */
+  private buffer: ITextBuffer;
+
+  /**
+   * Represents the rows changed since the last step, which are all the code lines history needs: the rows from startRow up to endRow replaced the rows up to previousEndRow of the last step. null if no row changed.
+   * @private
+   */
+  private changedRows: { startRow: number; endRow: number; previousEndRow: number } | null = null;
+
+  /**
+   * Represents the text edits made by the action being applied, which the undo stack records instead of copies of the code.
+   * @private
+   */
+  private textEdits: Array<ITextEdit> = [];
+
   private actionsApplied: Array<IAction>;
   private editorActionsApplied: Array<EditorAction>;
   private verbose: boolean = false;
-  private codeLinesHistory: Array<Array<string>> = [];
+  private codeLinesHistory: CodeLinesHistory = new CodeLinesHistory();
   private caretPositionHistory: Array<IEditorPosition> = [];
   private highlightStartPositionHistory: Array<IEditorPosition> = [];
   private currentlyHighlightedCode: string = "";
   private highlightHistory: Array<Array<string>> = [];
   private isSaved: boolean = false;
   private isEditorContextMenuOpen = false;
+  private clipboard: VirtualClipboard = new VirtualClipboard();
+  private options: IVirtualEditorOptions = { ...DefaultVirtualEditorOptions };
+  private undoStack: Array<IEditGroup> = [];
+  private redoStack: Array<IEditGroup> = [];
+
+  /**
+   * Represents whether the edit group on top of the undo stack may still be extended by the next edit action.
+   * @private
+   */
+  private isLastEditGroupOpen = false;
+
+  /**
+   * Represents whether the edit group on top of the undo stack is shared with a copy of the virtual editor, so that it has to be copied before it is extended.
+   * @private
+   */
+  private isLastEditGroupShared = false;
+
+  /**
+   * Represents the LOGICAL (0,0) referenced positions of closing brackets which were inserted automatically and can be typed over. They are forgotten as soon as anything but typing happens.
+   * @private
+   */
+  private autoClosedCharacters: Array<IEditorPosition> = [];
+
+  /**
+   * Represents the LOGICAL (0,0) referenced row which only holds whitespace inserted by auto indentation. -1 represents no such row.
+   * @private
+   */
+  private autoWhitespaceRow = -1;
 
-  constructor(initialCodeLines: Array<string>, actions?: Array<IAction>, verbose?: boolean) {
+  /**
+   * Represents whether add next occurrence only looks for whole words, which it does (like VS Code) while it keeps adding occurrences of the word it highlighted at the caret.
+   * @private
+   */
+  private isNextOccurrenceWholeWord = false;
+
+  /**
+   * Represents the problems with the actions applied so far, collected when the validation option is `lint`.
+   * @private
+   */
+  private validationIssues: Array<IVirtualEditorValidationIssue> = [];
+
+  /**
+   * Represents the state of the find widget, except for its matches.
+   * @private
+   */
+  private findWidget: Omit<IFindWidgetState, "matches"> = {
+    isOpen: false,
+    query: "",
+    replaceText: "",
+    isRegex: false,
+    isCaseSensitive: false,
+    isWholeWord: false,
+    activeMatchIndex: -1,
+  };
+
+  /**
+   * Represents the LOGICAL (0,0) referenced matches of the find widget query, in document order.
+   * @private
+   */
+  private findWidgetMatches: Array<IFindMatchWithCaptures> = [];
+
+  /**
+   * Represents the code and the query the find widget matches were found for, so that they are only searched for again once either changes.
+   * @private
+   */
+  private findWidgetMatchesKey = "";
+
+  /**
+   * Represents the matches key and the rest of the find widget state of the last find widget state history entry, which the next step reuses as long as they are unchanged. Empty when the last entry has to be replaced.
+   * @private
+   */
+  private findWidgetStateHistoryKey = "";
+
+  private findWidgetStateHistory: Array<IFindWidgetState> = [];
+  private isSavedHistory: Array<boolean> = [];
+  private isEditorContextMenuOpenHistory: Array<boolean> = [];
+  private secondaryCursorsHistory: Array<Array<ICursorState>> = [];
+
+  /**
+   * The actions the virtual editor can apply - any other action is skipped.
+   * @private
+   */
+  private static readonly supportedActions: Array<IVirtualEditorAction["name"]> = [
+    "editor-show-context-menu",
+    "editor-hide-context-menu",
+    "editor-enter",
+    "editor-type",
+    "editor-arrow-down",
+    "editor-arrow-up",
+    "editor-arrow-right",
+    "editor-arrow-left",
+    "editor-backspace",
+    "editor-space",
+    "editor-tab",
+    "editor-shift+tab",
+    "editor-command-left",
+    "editor-command-right",
+    "editor-option-arrow-left",
+    "editor-option-arrow-right",
+    "editor-shift+option-arrow-left",
+    "editor-shift+option-arrow-right",
+    "editor-option-backspace",
+    "editor-command-backspace",
+    "editor-shift+arrow-left",
+    "editor-shift+arrow-right",
+    "editor-shift+arrow-down",
+    "editor-shift+arrow-up",
+    "editor-save",
+    "editor-command-c",
+    "editor-copy",
+    "editor-cut",
+    "editor-command-v",
+    "editor-paste",
+    "editor-move-line-up",
+    "editor-move-line-down",
+    "editor-copy-line-down",
+    "editor-copy-line-up",
+    "editor-delete-line",
+    "editor-add-cursor-above",
+    "editor-add-cursor-below",
+    "editor-cmd+d",
+    "editor-command-d",
+    "editor-add-next-occurrence",
+    "editor-escape",
+    "editor-find",
+    "editor-find-next",
+    "editor-find-previous",
+    "editor-replace",
+    "editor-replace-all",
+    "editor-toggle-find-regex",
+    "editor-toggle-find-case-sensitive",
+    "editor-toggle-find-whole-word",
+    "editor-close-find",
+    "editor-goto-line",
+    "editor-goto-text",
+    "editor-select-text",
+    "editor-undo",
+    "editor-redo",
+  ];
+
+  /**
+   * The actions which move the caret or delete code, which a strict virtual editor rejects when they change nothing - any other action which changes nothing, like saving twice, is harmless and only reported when linting.
+   * @private
+   */
+  private static readonly movementAndDeletionActions: Array<IVirtualEditorAction["name"]> = [
+    "editor-arrow-down",
+    "editor-arrow-up",
+    "editor-arrow-right",
+    "editor-arrow-left",
+    "editor-shift+arrow-left",
+    "editor-shift+arrow-right",
+    "editor-shift+arrow-down",
+    "editor-shift+arrow-up",
+    "editor-command-left",
+    "editor-command-right",
+    "editor-option-arrow-left",
+    "editor-option-arrow-right",
+    "editor-shift+option-arrow-left",
+    "editor-shift+option-arrow-right",
+    "editor-backspace",
+    "editor-option-backspace",
+    "editor-command-backspace",
+    "editor-delete-line",
+  ];
+
+  /**
+   * The actions after which the desired column is kept - every other action resets it.
+   * @private
+   */
+  private static readonly actionsKeepingDesiredColumn: Array<IVirtualEditorAction["name"]> = [
+    "editor-arrow-up",
+    "editor-arrow-down",
+    "editor-shift+arrow-up",
+    "editor-shift+arrow-down",
+    "editor-save",
+    "editor-copy",
+    "editor-command-c",
+    "editor-show-context-menu",
+    "editor-hide-context-menu",
+    "editor-add-cursor-above",
+    "editor-add-cursor-below",
+  ];
+
+  /**
+   * The actions which are applied once, no matter how many cursors there are - every other action is applied at each cursor.
+   * @private
+   */
+  private static readonly actionsAppliedOnce: Array<IVirtualEditorAction["name"]> = [
+    "editor-show-context-menu",
+    "editor-hide-context-menu",
+    "editor-save",
+    "editor-undo",
+    "editor-redo",
+    "editor-add-cursor-above",
+    "editor-add-cursor-below",
+    "editor-add-next-occurrence",
+    "editor-cmd+d",
+    "editor-command-d",
+    "editor-escape",
+    "editor-find",
+    "editor-find-next",
+    "editor-find-previous",
+    "editor-replace",
+    "editor-replace-all",
+    "editor-toggle-find-regex",
+    "editor-toggle-find-case-sensitive",
+    "editor-toggle-find-whole-word",
+    "editor-close-find",
+    "editor-goto-line",
+    "editor-goto-text",
+    "editor-select-text",
+  ];
+
+  constructor(
+    initialCodeLines: Array<string>,
+    actions?: Array<IVirtualEditorAction>,
+    verbose?: boolean,
+    options?: Partial<IVirtualEditorOptions>
+  ) {
     // handle case if initialCodeLines is empty - we need at least one line
     if (initialCodeLines.length === 0) {
       initialCodeLines = [""];
     }
     // now consistently set the initial state
-    this.codeLines = initialCodeLines;
+    this.buffer = new PieceTableTextBuffer(initialCodeLines);
     this.actionsApplied = [
       { name: "editor-type", value: initialCodeLines.length === 1 ? initialCodeLines[0] : initialCodeLines.join("\n") },
     ];
     this.editorActionsApplied = [
       { name: "editor-type", value: initialCodeLines.length === 1 ? initialCodeLines[0] : initialCodeLines.join("\n") },
     ];
-    this.codeLinesHistory = [];
-    this.codeLinesHistory.push(initialCodeLines.slice());
+    this.codeLinesHistory = new CodeLinesHistory();
+    this.codeLinesHistory.push(initialCodeLines);
     this.highlightHistory = [];
     this.highlightHistory.push([""]);
     this.caretPositionHistory = [{ row: 0, col: 0 }];
     this.highlightStartPositionHistory = [{ row: -1, col: -1 }];
+    this.findWidgetStateHistory = [this.getFindWidgetState()];
+    this.isSavedHistory = [false];
+    this.isEditorContextMenuOpenHistory = [false];
+    this.secondaryCursorsHistory = [[]];
+
+    // options have to be set before any actions are applied
+    if (options) {
+      this.setOptions(options);
+    }
 
     // if actions are provided, apply them
     if (actions) {
@@ -79,16 +443,67 @@ export class VirtualEditor {
   }
 
   /**
-   * TODO: perhaps better to match 1:1 with a sort of snapshot, not sure - there is currently a big inconsistency between IEditor and the properties of this class
-   * Sets the values of the virtual editor from an editor object.
+   * Creates a virtual editor with the complete state of a snapshot returned by getSnapshot. The virtual editor gets its own clipboard with the text of the snapshot's clipboard.
+   * @param snapshot The snapshot to restore.
+   * @param verbose Whether to enable verbose.
+   * @returns A virtual editor identical to the one the snapshot was taken from.
+   */
+  static fromSnapshot(snapshot: IVirtualEditorSnapshot, verbose?: boolean): VirtualEditor {
+    const virtualEditor = new VirtualEditor(snapshot.codeLines, undefined, verbose, snapshot.options);
+    virtualEditor.caretRow = snapshot.caretRow;
+    virtualEditor.caretCol = snapshot.caretCol;
+    virtualEditor.highlightStartRow = snapshot.highlightStartRow;
+    virtualEditor.highlightStartCol = snapshot.highlightStartCol;
+    virtualEditor.desiredCol = snapshot.desiredCol;
+    virtualEditor.secondaryCursors = snapshot.secondaryCursors.map((cursor) => ({ ...cursor }));
+    virtualEditor.currentlyHighlightedCode = snapshot.highlightedCode;
+    virtualEditor.isSaved = snapshot.isSaved;
+    virtualEditor.isEditorContextMenuOpen = snapshot.isEditorContextMenuOpen;
+    virtualEditor.clipboard.setText(snapshot.clipboard.text, snapshot.clipboard.isWholeLine);
+    virtualEditor.undoStack = snapshot.undoStack ? snapshot.undoStack.map(copyEditGroup) : [];
+    virtualEditor.redoStack = snapshot.redoStack ? snapshot.redoStack.map(copyEditGroup) : [];
+    virtualEditor.isLastEditGroupOpen = snapshot.isLastEditGroupOpen ?? false;
+    virtualEditor.autoClosedCharacters = snapshot.autoClosedCharacters.map((position) => ({ ...position }));
+    virtualEditor.autoWhitespaceRow = snapshot.autoWhitespaceRow;
+    virtualEditor.isNextOccurrenceWholeWord = snapshot.isNextOccurrenceWholeWord;
+    virtualEditor.findWidget = { ...snapshot.findWidget };
+    virtualEditor.updateFindWidgetMatches();
+
+    // without histories, the snapshot is the first step of the restored virtual editor
+    const history = snapshot.history;
+    if (history) {
+      virtualEditor.actionsApplied = history.actionsApplied.map((action) => ({ ...action }));
+      virtualEditor.editorActionsApplied = history.editorActionsApplied.map((action) => ({ ...action }));
+      virtualEditor.codeLinesHistory = CodeLinesHistory.fromSnapshot(history.codeLinesHistory);
+      virtualEditor.caretPositionHistory = history.caretPositionHistory.map((position) => ({ ...position }));
+      virtualEditor.highlightStartPositionHistory = history.highlightStartPositionHistory.map((position) => ({ ...position }));
+      virtualEditor.highlightHistory = history.highlightHistory.map((highlight) => highlight.slice());
+      const findWidgetStates = history.findWidgetStateHistory.states.map(copyFindWidgetState);
+      virtualEditor.findWidgetStateHistory = history.findWidgetStateHistory.stateIndices.map((stateIndex) => findWidgetStates[stateIndex]);
+      virtualEditor.findWidgetStateHistoryKey = "";
+      virtualEditor.isSavedHistory = history.isSavedHistory.slice();
+      virtualEditor.isEditorContextMenuOpenHistory = history.isEditorContextMenuOpenHistory.slice();
+      virtualEditor.secondaryCursorsHistory = history.secondaryCursorsHistory.map((cursors) => cursors.map((cursor) => ({ ...cursor })));
+    } else {
+      virtualEditor.startHistoriesAtCurrentStep(snapshot.codeLines);
+    }
+    return virtualEditor;
+  }
+
+  /**
+   * Sets the values of the virtual editor from an editor object. Only the state described by IEditor is set - use getSnapshot and VirtualEditor.fromSnapshot to restore the complete state. The undo and redo stacks are cleared, as their edits were made in other code.
    * @param editor The editor object to set the values from.
    */
   setValuesFromEditor(editor: IEditor) {
-    this.codeLines = editor.content.split("\n");
+    this.setBuffer(new PieceTableTextBuffer(editor.content));
+    this.undoStack = [];
+    this.redoStack = [];
+    this.isLastEditGroupOpen = false;
     this.caretRow = editor.caretPosition.row - 1;
     this.caretCol = editor.caretPosition.col - 1;
     this.highlightStartRow = editor.highlightCoordinates ? editor.highlightCoordinates.start.row - 1 : -1;
     this.highlightStartCol = editor.highlightCoordinates ? editor.highlightCoordinates.start.col - 1 : -1;
+    this.secondaryCursors = [];
     this.isSaved = editor.isSaved;
   }
 
@@ -97,9 +512,10 @@ export class VirtualEditor {
    * @param actions The actions to apply.
    * @returns The code after the actions have been applied.
    */
-  applyActions(actions: Array<IAction>): string {
+  applyActions(actions: Array<IVirtualEditorAction>): string {
+    // the code is only built once, after the last action
     actions.forEach((action) => {
-      this.applyAction(action);
+      this.applySingleAction(action);
     });
 
     return this.getCode();
@@ -110,456 +526,125 @@ export class VirtualEditor {
    * @param action The action to apply.
    * @returns The code after the action has been applied. Note the code can be identical to a previous step if the action applied was not a code action.
    */
-  applyAction(action: IAction): string {
+  applyAction(action: IVirtualEditorAction): string {
+    this.applySingleAction(action);
+
+    // Return the code after the action has been applied
+    return this.getCode();
+  }
+
+  // Helper function to apply a single action and record it in the histories, without building the code of the virtual editor
+  private applySingleAction(action: IVirtualEditorAction) {
     // parse number out from action.value
     // if it fails we know it is something else like a code string, so default numTimes to 1
     let numTimes = 1;
-    if (isRepeatableAction(action)) {
+    if (isRepeatableVirtualEditorAction(action)) {
       numTimes = parseInt(action.value);
     }
-    this.currentlyHighlightedCode = "";
 
-    // TODO: why is this undefined sometimes? mostly from reconstituting from 'state in time' snapshots
-    const currentLineObject = this.codeLines[this.caretRow];
-    const currentLineLength = currentLineObject ? currentLineObject.length : 0;
+    // with validation, problems that show before the action is applied are reported without changing anything - afterwards, actions that changed nothing are reported
+    // actions for the rest of the IDE, like speech or the mouse, are skipped without validating them, just like without validation
+    const isValidated = this.options.validation !== "off" && isEditorAction(action as IAction);
+    const hasValidationIssue = isValidated && this.validateActionBeforeApplying(action, numTimes);
+    const isCheckedForNoOp =
+      isValidated && !hasValidationIssue && (this.options.validation === "lint" || VirtualEditor.movementAndDeletionActions.includes(action.name));
+    const observableStateBefore = isCheckedForNoOp ? this.getObservableState() : null;
+    const highlightedCodeBefore = this.currentlyHighlightedCode;
+    const autoClosedCharactersBefore = this.autoClosedCharacters;
+    this.currentlyHighlightedCode = "";
 
-    // in this switch, let the EditorActions in codevideo-types guide you
-    switch (action.name) {
-      // cross domains from mouse side effects
-      case "editor-show-context-menu":
-        this.isEditorContextMenuOpen = true;
-        break;
-      case "editor-hide-context-menu":
-        this.isEditorContextMenuOpen = false;
-        break;
+    // keep the state before the action so the undo stack can record the edit
+    const editStateBefore = this.getEditState();
+    const versionIdBefore = this.buffer.getVersionId();
+    this.textEdits = [];
 
-      case "editor-enter":
-        this.isSaved = false;
-        if (this.verbose) {
-          console.log("ENTER ACTION");
-          console.log("this.highlightStartRow: ", this.highlightStartRow);
-          console.log("this.highlightStartCol: ", this.highlightStartCol);
-        }
-        if (this.highlightStartRow !== -1) {
-          // Get correct start and end positions regardless of selection direction
-          const isForwardSelection =
-            this.highlightStartRow < this.caretRow ||
-            (this.highlightStartRow === this.caretRow &&
-              this.highlightStartCol <= this.caretCol);
-
-          const startRow = isForwardSelection ? this.highlightStartRow : this.caretRow;
-          const endRow = isForwardSelection ? this.caretRow : this.highlightStartRow;
-          const startCol = isForwardSelection
-            ? this.highlightStartCol
-            : this.caretCol;
-          const endCol = isForwardSelection
-            ? this.caretCol
-            : this.highlightStartCol;
-
-          // Delete highlighted text
-          const beforeText = this.codeLines[startRow].substring(0, startCol);
-          const afterText = this.codeLines[endRow].substring(endCol);
-
-          // Replace startRow with beforeText
-          this.codeLines[startRow] = beforeText;
-
-          // Remove lines between startRow and endRow
-          if (endRow > startRow) {
-            this.codeLines.splice(startRow + 1, endRow - startRow);
-          }
+    // auto closed brackets and quotes can only be typed over (or deleted along with their opening character) while typing continues
+    if (action.name !== "editor-type" && action.name !== "editor-backspace") {
+      this.autoClosedCharacters = [];
+    }
 
-          // For the new content, first insert an 'enter' for numTimes
-          const newContent = Array(numTimes-1).fill("");
+    // with multiple cursors, most actions are applied at each cursor in turn
+    if (this.secondaryCursors.length > 0 && !VirtualEditor.actionsAppliedOnce.includes(action.name)) {
+      this.applyActionAtEveryCursor(action, numTimes);
+    } else {
+      this.applyActionAtCaret(action, numTimes);
+    }
 
-          // push the afterText to the newContent (works even if it is empty!)
-          newContent.push(afterText);
+    // whitespace inserted by auto indentation is removed again once the caret leaves its line without typing anything
+    if (action.name !== "editor-enter") {
+      this.trimAutoInsertedWhitespace(versionIdBefore);
+    }
 
-          // update caret position to be at the first column of the new line
-          this.caretRow = startRow + numTimes;
-          this.caretCol = 0;
+    // edits change the matches of the find widget, and moving the caret away from the active match deactivates it
+    this.updateFindWidgetMatches();
+
+    if (observableStateBefore !== null && observableStateBefore === this.getObservableState()) {
+      // the issue holds the state before the action, which a strict virtual editor keeps as it throws before the action is recorded
+      const highlightedCodeAfter = this.currentlyHighlightedCode;
+      const autoClosedCharactersAfter = this.autoClosedCharacters;
+      this.currentlyHighlightedCode = highlightedCodeBefore;
+      this.autoClosedCharacters = autoClosedCharactersBefore;
+      this.reportValidationIssue("no-op-action", action, `${action.name} with value '${action.value}' changed nothing.`);
+      this.currentlyHighlightedCode = highlightedCodeAfter;
+      this.autoClosedCharacters = autoClosedCharactersAfter;
+    }
 
-          // insert newLines into codeLines at caretRow
-          this.codeLines.splice(this.caretRow, 0, ...newContent);
+    // add next occurrence only keeps looking for whole words as long as it is repeated
+    if (action.name !== "editor-cmd+d" && action.name !== "editor-command-d" && action.name !== "editor-add-next-occurrence") {
+      this.isNextOccurrenceWholeWord = false;
+    }
 
-          // Clear the highlight after insertion
-          this.clearCurrentHighlightedCode();
-        } else {
-          // Existing code for handling multiple enters without highlight
-          for (let i = 0; i < numTimes; i++) {
-            const currentLine = this.codeLines[this.caretRow];
-            const beforeCaret = currentLine.substring(0, this.caretCol);
-            const afterCaret = currentLine.substring(this.caretCol);
-
-            // log all
-            if (this.verbose) {
-              console.log("currentLine: ", currentLine);
-              console.log("beforeCaret: ", beforeCaret);
-              console.log("afterCaret: ", afterCaret);
-            }
+    // only vertical caret movement (and actions which don't touch the caret) remember the desired column
+    if (!VirtualEditor.actionsKeepingDesiredColumn.includes(action.name)) {
+      this.desiredCol = -1;
+      this.secondaryCursors.forEach((cursor) => {
+        cursor.desiredCol = -1;
+      });
+    }
 
-            // Update current line to contain only text before caret
-            this.codeLines[this.caretRow] = beforeCaret;
+    // undo and redo move along the stacks themselves, everything else may push a new edit group
+    if (action.name !== "editor-undo" && action.name !== "editor-redo") {
+      this.recordEditGroup(action, editStateBefore, versionIdBefore);
+    }
 
-            // Insert new line with text after caret
-            this.codeLines.splice(this.caretRow + 1, 0, afterCaret);
+    // ALWAYS append the action to the end of the actionsApplied
+    // extended actions are stored as plain IActions so the history getters keep their codevideo-types signatures
+    this.actionsApplied.push(action as IAction);
 
-            // Move caret to start of new line
-            this.caretRow++;
-            this.caretCol = 0;
-          }
-        }
-        break;
-      case "editor-type":
-        this.isSaved = false;
-        // if highlight is defined, delete everything between the caret position and the highlight position, and insert the typed text at the caret position
-        if (this.highlightStartRow !== -1) {
-          const startRow = this.highlightStartRow;
-          const startColumn = this.highlightStartCol;
-          const endRow = this.caretRow;
-          const endColumn = this.caretCol;
-          if (startRow === endRow) {
-            this.codeLines[startRow] =
-              this.codeLines[startRow].substring(0, startColumn) +
-              this.codeLines[startRow].substring(endColumn);
-          } else {
-            this.codeLines[startRow] =
-              this.codeLines[startRow].substring(0, startColumn) +
-              this.codeLines[endRow].substring(endColumn);
-            this.codeLines.splice(startRow + 1, endRow - startRow);
-          }
-          this.caretRow = startRow;
-          this.caretCol = startColumn;
-          this.clearCurrentHighlightedCode();
-        }
-        // with type-editor, the caret is always at the end of the typed text
-        // const typedStringLength = action.value.length;
-        // for (let i = 0; i < numTimes; i++) {
-        //   this.codeLines[this.caretRow] =
-        //     this.codeLines[this.caretRow].substring(0, this.caretCol) +
-        //     action.value +
-        //     this.codeLines[this.caretRow].substring(this.caretCol);
-        //   this.caretCol += typedStringLength;
-        // }
-        // Handle newlines properly - split by \n and process each part
-        const lines = action.value.split('\n');
-        
-        for (let i = 0; i < numTimes; i++) {
-          if (lines.length === 1) {
-            // No newlines, simple append like before
-            this.codeLines[this.caretRow] =
-              this.codeLines[this.caretRow].substring(0, this.caretCol) +
-              action.value +
-              this.codeLines[this.caretRow].substring(this.caretCol);
-            this.caretCol += action.value.length;
-          } else {
-            // Has newlines, need to split into multiple lines
-            const restOfLine = this.codeLines[this.caretRow].substring(this.caretCol);
-            
-            // Append first part to current line
-            this.codeLines[this.caretRow] =
-              this.codeLines[this.caretRow].substring(0, this.caretCol) + lines[0];
-            
-            // Add remaining lines
-            for (let j = 1; j < lines.length; j++) {
-              this.caretRow++;
-              if (j === lines.length - 1) {
-                // Last line - append the rest of the original line
-                this.codeLines.splice(this.caretRow, 0, lines[j] + restOfLine);
-                this.caretCol = lines[j].length;
-              } else {
-                // Middle lines - just insert as new lines
-                this.codeLines.splice(this.caretRow, 0, lines[j]);
-              }
-            }
-          }
-        }
-        break;
-      case "editor-arrow-down":
-        // for numTimes, move the caret down if the current row is not the last row
-        for (let i = 0; i < numTimes; i++) {
-          if (this.caretRow < this.codeLines.length - 1) {
-            this.caretRow++;
-          }
-        }
-        this.clearCurrentHighlightedCode();
-        break;
-      case "editor-arrow-up":
-        // for numTimes, move the caret up if the current row is not the first row
-        for (let i = 0; i < numTimes; i++) {
-          if (this.caretRow > 0) {
-            this.caretRow--;
-          }
-        }
-        this.clearCurrentHighlightedCode();
-        break;
-      case "editor-arrow-right":
-        // for numTimes, move the caret right - if we are at the end of a line and there are more lines below the current line, move to the start of the next line
-        for (let i = 0; i < numTimes; i++) {
-          if (this.caretCol < currentLineLength) {
-            this.caretCol++;
-          } else if (this.caretRow < this.codeLines.length - 1) {
-            this.caretRow++;
-            this.caretCol = 0;
-          }
-        }
-        this.clearCurrentHighlightedCode();
-        break;
-      case "editor-arrow-left":
-        // for numTimes, move the caret left - if we are at the start of a line and there are more lines above the current line, move to the end of the previous line
-        for (let i = 0; i < numTimes; i++) {
-          if (this.caretCol > 0) {
-            this.caretCol--;
-          } else if (this.caretRow > 0) {
-            this.caretRow--;
-            this.caretCol = this.codeLines[this.caretRow].length - 1;
-          }
-        }
-        this.clearCurrentHighlightedCode();
-        break;
-      case "editor-backspace":
-        this.isSaved = false;
-        if (this.highlightStartRow !== -1) {
-          // Get correct start and end positions regardless of selection direction
-          const startRow = Math.min(this.highlightStartRow, this.caretRow);
-          const endRow = Math.max(this.highlightStartRow, this.caretRow);
-          const isForwardSelection = this.highlightStartRow < this.caretRow;
-
-          const startCol = isForwardSelection ?
-            this.highlightStartCol : this.caretCol;
-          const endCol = isForwardSelection ?
-            this.caretCol : this.highlightStartCol;
-
-          if (startRow === endRow) {
-            // Single line deletion
-            const start = Math.min(startCol, endCol);
-            const end = Math.max(startCol, endCol);
-            this.codeLines[startRow] =
-              this.codeLines[startRow].substring(0, start) +
-              this.codeLines[startRow].substring(end);
-            this.caretRow = startRow;
-            this.caretCol = start;
-          } else {
-            // Multi-line deletion
-            const firstLineStart = this.codeLines[startRow].substring(0, startCol);
-            const lastLineEnd = this.codeLines[endRow].substring(endCol);
+    // append editor actions to editor actions applied
+    if (isEditorAction(action as IAction)) {
+      this.editorActionsApplied.push(action as EditorAction);
+    }
 
-            this.codeLines[startRow] = firstLineStart + lastLineEnd;
-            this.codeLines.splice(startRow + 1, endRow - startRow);
+    // Append the current code lines to the code history, which only keeps the lines that changed
+    if (this.changedRows) {
+      const { startRow, endRow, previousEndRow } = this.changedRows;
+      this.codeLinesHistory.pushChangedLines(startRow, previousEndRow - startRow, this.getLinesBetween(startRow, endRow));
+      this.changedRows = null;
+    } else {
+      this.codeLinesHistory.pushChangedLines(0, 0, []);
+    }
+    this.caretPositionHistory.push({
+      row: this.caretRow,
+      col: this.caretCol,
+    });
 
-            this.caretRow = startRow;
-            this.caretCol = startCol;
-          }
-          this.clearCurrentHighlightedCode();
-        } else {
-          // Standard backspace behavior unchanged
-          for (let i = 0; i < numTimes; i++) {
-            if (this.caretCol > 0) {
-              this.codeLines[this.caretRow] =
-                this.codeLines[this.caretRow].substring(0, this.caretCol - 1) +
-                this.codeLines[this.caretRow].substring(this.caretCol);
-              this.caretCol--;
-            } else if (this.caretRow > 0) {
-              const previousLineLength = this.codeLines[this.caretRow - 1].length;
-              this.codeLines[this.caretRow - 1] += this.codeLines[this.caretRow];
-              this.codeLines.splice(this.caretRow, 1);
-              this.caretRow--;
-              this.caretCol = previousLineLength;
-            }
-          }
-        }
-        break;
-      case "editor-space":
-        this.isSaved = false;
-        // if highlight is defined, delete everything between the caret position and the highlight position
-        if (this.highlightStartRow !== -1) {
-          const startRow = Math.min(this.highlightStartRow, this.caretRow);
-          const endRow = Math.max(this.highlightStartRow, this.caretRow);
-          const startCol = startRow === this.highlightStartRow ?
-            this.highlightStartCol : this.caretCol;
-          const endCol = endRow === this.highlightStartRow ?
-            this.highlightStartCol : this.caretCol;
-
-          if (startRow === endRow) {
-            const start = Math.min(startCol, endCol);
-            const end = Math.max(startCol, endCol);
-            this.codeLines[startRow] =
-              this.codeLines[startRow].substring(0, start) +
-              this.codeLines[startRow].substring(end);
-            // After deleting selection, put caret at start position
-            this.caretRow = startRow;
-            this.caretCol = start;
-          } else {
-            // Multi-line case
-            const firstLineStart = this.codeLines[startRow].substring(0, startCol);
-            const lastLineEnd = this.codeLines[endRow].substring(endCol);
+    // always append the highlight history, even if it is empty i.e. (-1, -1)
+    this.highlightStartPositionHistory.push({
+      row: this.highlightStartRow === -1 ? -1 : this.highlightStartRow,
+      col: this.highlightStartCol === -1 ? -1 : this.highlightStartCol,
+    });
 
-            this.codeLines[startRow] = firstLineStart + lastLineEnd;
-            this.codeLines.splice(startRow + 1, endRow - startRow);
+    this.highlightHistory.push(
+      this.currentlyHighlightedCode === ""
+        ? [""]
+        : [this.currentlyHighlightedCode]
+    );
 
-            this.caretRow = startRow;
-            this.caretCol = startCol;
-          }
-          this.clearCurrentHighlightedCode();
-        }
-
-        // Insert spaces one at a time to properly handle the numTimes parameter
-        for (let i = 0; i < numTimes; i++) {
-          this.codeLines[this.caretRow] =
-            this.codeLines[this.caretRow].substring(0, this.caretCol) +
-            " " +
-            this.codeLines[this.caretRow].substring(this.caretCol);
-          this.caretCol++;
-        }
-        break;
-      case "editor-tab":
-        // for numTimes, insert a tab at the current caret position
-        for (let i = 0; i < numTimes; i++) {
-          this.codeLines[this.caretRow] =
-            this.codeLines[this.caretRow].substring(0, this.caretCol) +
-            "\t" +
-            this.codeLines[this.caretRow].substring(this.caretCol);
-          this.caretCol++;
-        }
-        break;
-      case "editor-command-left":
-        // for numTimes, move the caret to the start of the current line if the current caretColumn is not 0
-        for (let i = 0; i < numTimes; i++) {
-          if (this.caretCol > 0) {
-            this.caretCol = 0;
-          }
-        }
-        // Clear any existing highlight when moving cursor
-        this.clearCurrentHighlightedCode();
-        break;
-      case "editor-command-right":
-        // for numTimes, move the caret to the end of the current line 
-        for (let i = 0; i < numTimes; i++) {
-          if (this.caretCol < this.codeLines[this.caretRow].length) {
-            this.caretCol = this.codeLines[this.caretRow].length;
-          }
-        }
-        // Clear any existing highlight when moving cursor
-        this.clearCurrentHighlightedCode();
-        break;
-      case "editor-shift+arrow-left":
-        // If no highlight exists yet, set the start position
-        if (this.highlightStartRow === -1) {
-          this.highlightStartRow = this.caretRow;
-          this.highlightStartCol = this.caretCol;
-        }
-
-        // Move caret left for numTimes
-        for (let i = 0; i < numTimes; i++) {
-          if (this.caretCol > 0) {
-            this.caretCol--;
-          } else if (this.caretRow > 0) {
-            this.caretRow--;
-            this.caretCol = this.codeLines[this.caretRow].length;
-          }
-        }
-
-        this.currentlyHighlightedCode = this.calculateHighlightedText();
-        break;
-      case "editor-shift+arrow-right":
-          // If no highlight exists yet, set the start position
-          if (this.highlightStartRow === -1) {
-            this.highlightStartRow = this.caretRow;
-            this.highlightStartCol = this.caretCol;
-          }
-  
-          // Move caret right for numTimes
-          for (let i = 0; i < numTimes; i++) {
-            if (this.caretCol < this.codeLines[this.caretRow].length) {
-              this.caretCol++;
-            } else if (this.caretRow < this.codeLines.length - 1) {
-              this.caretRow++;
-              this.caretCol = 0;
-            }
-          }
-  
-          this.currentlyHighlightedCode = this.calculateHighlightedText();
-          break;
-      case "editor-shift+arrow-down":
-        // If no highlight exists yet, set the start position
-        if (this.highlightStartRow === -1) {
-          this.highlightStartRow = this.caretRow;
-          this.highlightStartCol = this.caretCol;
-        }
-
-        // Move caret down for numTimes - if the next line has AT LEAST the same number of columns as the current line, move the caret down to the same column, otherwise move the caret to the end of the next line
-        for (let i = 0; i < numTimes; i++) {
-          if (this.caretRow < this.codeLines.length - 1) {
-            const nextLineLength = this.codeLines[this.caretRow + 1].length;
-            if (this.caretCol < nextLineLength) {
-              this.caretRow++;
-            } else {
-              this.caretRow++;
-              this.caretCol = nextLineLength;
-            }
-          }
-        }
-
-        this.currentlyHighlightedCode = this.calculateHighlightedText();
-        break;
-      case "editor-shift+arrow-up":
-        // If no highlight exists yet, set the start position
-        if (this.highlightStartRow === -1) {
-          this.highlightStartRow = this.caretRow;
-          this.highlightStartCol = this.caretCol;
-        }
-
-        // Move caret up for numTimes - if the previous line has AT LEAST the same number of columns as the current line, move the caret up to the same column, otherwise move the caret to the end of the previous line
-        for (let i = 0; i < numTimes; i++) {
-          if (this.caretRow > 0) {
-            const previousLineLength = this.codeLines[this.caretRow - 1].length;
-            if (this.caretCol < previousLineLength) {
-              this.caretRow--;
-            } else {
-              this.caretRow--;
-              this.caretCol = previousLineLength;
-            }
-          }
-        }
-
-        this.currentlyHighlightedCode = this.calculateHighlightedText();
-        break;
-        case "editor-save":
-          this.isSaved = true;
-          break;
-      default:
-        if (this.verbose) {
-          console.log(`WARNING: codevideo-virtual-editor: Action ${action.name} not recognized.`);
-        }
-        break;
-    }
-
-    // ALWAYS append the action to the end of the actionsApplied
-    this.actionsApplied.push(action);
-
-    // append editor actions to editor actions applied
-    if (isEditorAction(action)) {
-      this.editorActionsApplied.push(action);
-    }
-
-    // Append a copy of the current code lines to the code history
-    const codeLinesCopy = this.codeLines.slice();
-    this.codeLinesHistory.push(codeLinesCopy);
-    this.caretPositionHistory.push({
-      row: this.caretRow,
-      col: this.caretCol,
-    });
-
-    // always append the highlight history, even if it is empty i.e. (-1, -1)
-    this.highlightStartPositionHistory.push({
-      row: this.highlightStartRow === -1 ? -1 : this.highlightStartRow,
-      col: this.highlightStartCol === -1 ? -1 : this.highlightStartCol,
-    });
-
-    this.highlightHistory.push(
-      this.currentlyHighlightedCode === ""
-        ? [""]
-        : [this.currentlyHighlightedCode]
-    );
+    this.findWidgetStateHistory.push(this.getFindWidgetStateOfStep());
+    this.isSavedHistory.push(this.isSaved);
+    this.isEditorContextMenuOpenHistory.push(this.isEditorContextMenuOpen);
+    this.secondaryCursorsHistory.push(this.secondaryCursors.map((cursor) => ({ ...cursor })));
 
     // If verbose is true, log the action and the current code
     if (this.verbose) {
@@ -570,21 +655,87 @@ export class VirtualEditor {
       console.log("CURRENT CODE:");
       console.log(`\`${this.getCodeAtActionIndex(this.actionsApplied.length - 1)}\``);
     }
+  }
 
-    // Return the code after the action has been applied
-    return this.getCode();
+  /**
+   * Returns the complete state of the virtual editor, which VirtualEditor.fromSnapshot turns back into an identical virtual editor. The snapshot shares no objects with the virtual editor, so it can be kept (or serialized as JSON) while more actions are applied.
+   * @param includeHistory Whether to include the histories of every step and the undo and redo stacks, defaults to false.
+   * @returns The snapshot of the virtual editor.
+   */
+  getSnapshot(includeHistory: boolean = false): IVirtualEditorSnapshot {
+    const snapshot: IVirtualEditorSnapshot = {
+      codeLines: this.buffer.getLines(),
+      caretRow: this.caretRow,
+      caretCol: this.caretCol,
+      highlightStartRow: this.highlightStartRow,
+      highlightStartCol: this.highlightStartCol,
+      desiredCol: this.desiredCol,
+      secondaryCursors: this.secondaryCursors.map((cursor) => ({ ...cursor })),
+      highlightedCode: this.currentlyHighlightedCode,
+      isSaved: this.isSaved,
+      isEditorContextMenuOpen: this.isEditorContextMenuOpen,
+      options: this.getOptions(),
+      clipboard: { text: this.clipboard.getText(), isWholeLine: this.clipboard.getIsWholeLine() },
+      autoClosedCharacters: this.autoClosedCharacters.map((position) => ({ ...position })),
+      autoWhitespaceRow: this.autoWhitespaceRow,
+      isNextOccurrenceWholeWord: this.isNextOccurrenceWholeWord,
+      findWidget: { ...this.findWidget },
+    };
+    if (includeHistory) {
+      snapshot.undoStack = this.undoStack.map(copyEditGroup);
+      snapshot.redoStack = this.redoStack.map(copyEditGroup);
+      snapshot.isLastEditGroupOpen = this.isLastEditGroupOpen;
+      snapshot.history = {
+        actionsApplied: this.actionsApplied.map((action) => ({ ...action })),
+        editorActionsApplied: this.editorActionsApplied.map((action) => ({ ...action })),
+        codeLinesHistory: this.codeLinesHistory.toSnapshot(),
+        caretPositionHistory: this.caretPositionHistory.map((position) => ({ ...position })),
+        highlightStartPositionHistory: this.highlightStartPositionHistory.map((position) => ({ ...position })),
+        highlightHistory: this.highlightHistory.map((highlight) => highlight.slice()),
+        findWidgetStateHistory: this.getFindWidgetStateHistorySnapshot(),
+        isSavedHistory: this.isSavedHistory.slice(),
+        isEditorContextMenuOpenHistory: this.isEditorContextMenuOpenHistory.slice(),
+        secondaryCursorsHistory: this.secondaryCursorsHistory.map((cursors) => cursors.map((cursor) => ({ ...cursor }))),
+      };
+    }
+    return snapshot;
   }
 
-  // TODO - shortcuts were taken in the virtual IDE for this method:
-  // /**
-  //  * Returns the current snapshot of the virtual editor
-  //  * @returns The current snapshot
-  //  */
-  // getCurrentSnapshot(): IEditorSnapshot {
-  //   return {
-  //     editors: this.editors
-  //   }
-  // }
+  /**
+   * Returns a copy of the virtual editor as it is now, which shares the text and the undo and redo stacks with it until either of them changes them. Like a virtual editor restored from getSnapshot(), the copy starts its histories at the current step, so it is much cheaper to make than a snapshot, but it can undo and redo like the virtual editor. The copy gets its own clipboard with the text of the virtual editor's clipboard.
+   * @param options The options to change for the copy, e.g. to turn validation off.
+   * @returns A copy of the virtual editor.
+   */
+  clone(options?: Partial<IVirtualEditorOptions>): VirtualEditor {
+    const virtualEditor = new VirtualEditor([""], undefined, this.verbose, { ...this.options, ...options });
+    virtualEditor.buffer = this.buffer.clone();
+    virtualEditor.caretRow = this.caretRow;
+    virtualEditor.caretCol = this.caretCol;
+    virtualEditor.highlightStartRow = this.highlightStartRow;
+    virtualEditor.highlightStartCol = this.highlightStartCol;
+    virtualEditor.desiredCol = this.desiredCol;
+    virtualEditor.secondaryCursors = this.secondaryCursors.map((cursor) => ({ ...cursor }));
+    virtualEditor.currentlyHighlightedCode = this.currentlyHighlightedCode;
+    virtualEditor.isSaved = this.isSaved;
+    virtualEditor.isEditorContextMenuOpen = this.isEditorContextMenuOpen;
+    virtualEditor.clipboard.setText(this.clipboard.getText(), this.clipboard.getIsWholeLine());
+    virtualEditor.autoClosedCharacters = this.autoClosedCharacters.map((position) => ({ ...position }));
+    virtualEditor.autoWhitespaceRow = this.autoWhitespaceRow;
+    virtualEditor.isNextOccurrenceWholeWord = this.isNextOccurrenceWholeWord;
+    virtualEditor.findWidget = { ...this.findWidget };
+
+    // the edit groups are only moved between the stacks, except for the open one on top of the undo stack, which whichever editor extends it first copies
+    virtualEditor.undoStack = this.undoStack.slice();
+    virtualEditor.redoStack = this.redoStack.slice();
+    virtualEditor.isLastEditGroupOpen = this.isLastEditGroupOpen;
+    virtualEditor.isLastEditGroupShared = this.isLastEditGroupShared = this.undoStack.length > 0;
+
+    // the matches are never changed, only replaced, and are still the matches of the shared text
+    virtualEditor.findWidgetMatches = this.findWidgetMatches;
+    virtualEditor.findWidgetMatchesKey = this.findWidgetMatchesKey;
+    virtualEditor.startHistoriesAtCurrentStep(this.codeLinesHistory.getLatest());
+    return virtualEditor;
+  }
 
   /**
    * Returns if the editor context menu is open or not
@@ -599,7 +750,7 @@ export class VirtualEditor {
    * @returns The code lines of the virtual editor.
    */
   getCodeLines(): Array<string> {
-    return this.codeLines;
+    return this.buffer.getLines();
   }
 
   /**
@@ -636,6 +787,28 @@ export class VirtualEditor {
     return { start, end };
   }
 
+  /**
+   * Returns the PHYSICAL caret positions and highlight coordinates of every cursor, (1, 1) being the top left of the editor. The primary cursor (the one of getCurrentCaretPosition) comes first, followed by the other cursors in the order they were added.
+   * @returns The PHYSICAL caret positions and highlight coordinates of every cursor.
+   */
+  getCurrentCursors(): Array<IVirtualEditorCursor> {
+    return [this.getActiveCursor(), ...this.secondaryCursors].map(toPhysicalCursor);
+  }
+
+  /**
+   * Returns the state of the find widget, with PHYSICAL match positions, (1, 1) being the top left of the editor.
+   * @returns The state of the find widget.
+   */
+  getFindWidgetState(): IFindWidgetState {
+    return {
+      ...this.findWidget,
+      matches: this.findWidgetMatches.map((match) => ({
+        start: { row: match.start.row + 1, col: match.start.col + 1 },
+        end: { row: match.end.row + 1, col: match.end.col + 1 },
+      })),
+    };
+  }
+
   /**
    * Returns the isSaved state of the virtual editor.
    * @returns The isSaved state of the virtual editor.
@@ -684,7 +857,7 @@ export class VirtualEditor {
    * @returns The code after the actions have been applied.
    */
   getCode(): string {
-    return this.codeLines.join("\n");
+    return this.buffer.getText(this.getEndOfLine());
   }
 
   /**
@@ -694,10 +867,7 @@ export class VirtualEditor {
    * @throws An error if the action index is out of bounds.
    */
   getCodeAtActionIndex(actionIndex: number): string {
-    if (actionIndex > this.codeLinesHistory.length - 1) {
-      throw new Error("Action index out of bounds");
-    }
-    return this.codeLinesHistory[actionIndex].join("\n");
+    return this.codeLinesHistory.get(actionIndex).join(this.getEndOfLine());
   }
 
   /**
@@ -714,11 +884,34 @@ export class VirtualEditor {
   }
 
   /**
-   * Returns an array of code lines at each step.
+   * Gets the state of the find widget at a specific action index that has been applied.
+   * @param actionIndex The index of the action to get the find widget state after.
+   * @returns The state of the find widget after the action has been applied.
+   * @throws An error if the action index is out of bounds.
+   */
+  getFindWidgetStateAtActionIndex(actionIndex: number): IFindWidgetState {
+    if (actionIndex > this.findWidgetStateHistory.length - 1) {
+      throw new Error("Action index out of bounds");
+    }
+    return this.findWidgetStateHistory[actionIndex];
+  }
+
+  /**
+   * Returns an array of code lines at each step. The history only stores the lines that changed in each step, so this builds a full copy of the code lines for every step - prefer getCodeLinesAtActionIndex for long histories.
    * @returns An array of code lines at each step.
    */
   getCodeLinesHistory(): Array<Array<string>> {
-    return this.codeLinesHistory;
+    return this.codeLinesHistory.toArray();
+  }
+
+  /**
+   * Gets the code lines at a specific action index that has been applied.
+   * @param actionIndex The index of the action to get the code lines after.
+   * @returns A copy of the code lines after the action has been applied.
+   * @throws An error if the action index is out of bounds.
+   */
+  getCodeLinesAtActionIndex(actionIndex: number): Array<string> {
+    return this.codeLinesHistory.get(actionIndex);
   }
 
   /**
@@ -734,7 +927,7 @@ export class VirtualEditor {
    * @returns The code after each step.
    */
   getCodeAfterEachStep(): Array<string> {
-    return this.codeLinesHistory.map((codeLines) => codeLines.join("\n"));
+    return this.getStepIndices().map((index) => this.getCodeAtActionIndex(index));
   }
 
   /**
@@ -745,9 +938,9 @@ export class VirtualEditor {
     code: string;
     caretPosition: IEditorPosition;
   }> {
-    return this.codeLinesHistory.map((codeLines, index) => {
+    return this.getStepIndices().map((index) => {
       return {
-        code: codeLines.join("\n"),
+        code: this.getCodeAtActionIndex(index),
         caretPosition: {
           row: this.caretPositionHistory[index].row,
           col: this.caretPositionHistory[index].col,
@@ -756,6 +949,73 @@ export class VirtualEditor {
     });
   }
 
+  /**
+   * Gets the full state of the virtual editor after each step, with PHYSICAL positions, (1, 1) being the top left of the editor.
+   * @returns The state of the virtual editor after each step, the initial code being the first step.
+   */
+  getTimeline(): Array<IVirtualEditorState> {
+    return this.getStepIndices().map((index) => this.getStateAtActionIndex(index));
+  }
+
+  /**
+   * Gets the full state of the virtual editor at a specific action index that has been applied, with PHYSICAL positions, (1, 1) being the top left of the editor.
+   * @param actionIndex The index of the action to get the state after.
+   * @returns The state of the virtual editor after the action has been applied.
+   * @throws An error if the action index is out of bounds.
+   */
+  getStateAtActionIndex(actionIndex: number): IVirtualEditorState {
+    const code = this.getCodeAtActionIndex(actionIndex);
+    const caretPosition = this.caretPositionHistory[actionIndex];
+    const highlightStartPosition = this.highlightStartPositionHistory[actionIndex];
+    const primaryCursor = toPhysicalCursor({
+      caretRow: caretPosition.row,
+      caretCol: caretPosition.col,
+      highlightStartRow: highlightStartPosition.row,
+      highlightStartCol: highlightStartPosition.col,
+      desiredCol: -1,
+    });
+    return {
+      action: this.actionsApplied[actionIndex],
+      code,
+      caretPosition: primaryCursor.caretPosition,
+      highlightCoordinates: primaryCursor.highlightCoordinates,
+      highlightedCode: this.highlightHistory[actionIndex].join("\n"),
+      isSaved: this.isSavedHistory[actionIndex],
+      isEditorContextMenuOpen: this.isEditorContextMenuOpenHistory[actionIndex],
+      cursors: [primaryCursor, ...this.secondaryCursorsHistory[actionIndex].map(toPhysicalCursor)],
+      findWidget: this.findWidgetStateHistory[actionIndex],
+    };
+  }
+
+  /**
+   * Gets the changes the action at a specific action index made to the code, with PHYSICAL positions, (1, 1) being the top left of the editor. The changes of the first step are the initial code, inserted in an empty editor.
+   * @param actionIndex The index of the action to get the changes of.
+   * @returns The changes to the code, along with the unified diff.
+   * @throws An error if the action index is out of bounds.
+   */
+  getDiffAtActionIndex(actionIndex: number): ICodeDiff {
+    if (actionIndex === 0) {
+      return getCodeDiff([], this.getCodeLinesAtActionIndex(0), "empty", "action 0");
+    }
+    return this.getDiffBetween(actionIndex - 1, actionIndex);
+  }
+
+  /**
+   * Gets the changes to the code from one action index to another, with PHYSICAL positions, (1, 1) being the top left of the editor. The action indices can be in either order.
+   * @param fromActionIndex The index of the action to get the code after as the old code.
+   * @param toActionIndex The index of the action to get the code after as the new code.
+   * @returns The changes to the code, along with the unified diff.
+   * @throws An error if either action index is out of bounds.
+   */
+  getDiffBetween(fromActionIndex: number, toActionIndex: number): ICodeDiff {
+    return getCodeDiff(
+      this.getCodeLinesAtActionIndex(fromActionIndex),
+      this.getCodeLinesAtActionIndex(toActionIndex),
+      `action ${fromActionIndex}`,
+      `action ${toActionIndex}`
+    );
+  }
+
   /**
   * Sets the verbose mode for the virtual editor.
   * @param verbose Whether to enable verbose
@@ -764,6 +1024,1727 @@ export class VirtualEditor {
     this.verbose = verbose;
   }
 
+  /**
+   * Returns the clipboard used by the copy, cut and paste actions of the virtual editor.
+   * @returns The clipboard of the virtual editor.
+   */
+  getClipboard(): VirtualClipboard {
+    return this.clipboard;
+  }
+
+  /**
+   * Sets the clipboard used by the copy, cut and paste actions of the virtual editor. Pass the same clipboard to multiple editors to copy and paste between them.
+   * @param clipboard The clipboard to use.
+   */
+  setClipboard(clipboard: VirtualClipboard) {
+    this.clipboard = clipboard;
+  }
+
+  /**
+   * Returns the characters that separate words when navigating or deleting by word.
+   * @returns The word separators of the virtual editor.
+   */
+  getWordSeparators(): string {
+    return this.options.wordSeparators;
+  }
+
+  /**
+   * Sets the characters that separate words when navigating or deleting by word, like VS Code's `editor.wordSeparators` setting. Whitespace always separates words.
+   * @param wordSeparators The word separators to use.
+   */
+  setWordSeparators(wordSeparators: string) {
+    this.options.wordSeparators = wordSeparators;
+  }
+
+  /**
+   * Returns the options of the virtual editor.
+   * @returns A copy of the options of the virtual editor.
+   */
+  getOptions(): IVirtualEditorOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Sets options of the virtual editor. Options which are not provided keep their current value.
+   * @param options The options to set.
+   */
+  setOptions(options: Partial<IVirtualEditorOptions>) {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Returns the problems with the actions applied so far, which are collected when the validation option is `lint`.
+   * @returns The validation issues, in the order of the actions.
+   */
+  getValidationIssues(): Array<IVirtualEditorValidationIssue> {
+    return this.validationIssues.slice();
+  }
+
+  /**
+   * Returns if there is an edit group that can be undone.
+   * @returns If there is an edit group that can be undone.
+   */
+  getCanUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Returns if there is an edit group that can be redone.
+   * @returns If there is an edit group that can be redone.
+   */
+  getCanRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // Helper function to apply an action at the caret (and highlight) of the active cursor
+  private applyActionAtCaret(action: IVirtualEditorAction, numTimes: number) {
+    // the caret row can be outside of the code after setValuesFromEditor with an editor whose caret doesn't match its content
+    const currentLineObject = this.buffer.getLine(this.caretRow);
+    const currentLineLength = currentLineObject ? currentLineObject.length : 0;
+
+    // in this switch, let the EditorActions in codevideo-types guide you
+    switch (action.name) {
+      // cross domains from mouse side effects
+      case "editor-show-context-menu":
+        this.isEditorContextMenuOpen = true;
+        break;
+      case "editor-hide-context-menu":
+        this.isEditorContextMenuOpen = false;
+        break;
+
+      case "editor-enter":
+        this.isSaved = false;
+        if (this.verbose) {
+          console.log("ENTER ACTION");
+          console.log("this.highlightStartRow: ", this.highlightStartRow);
+          console.log("this.highlightStartCol: ", this.highlightStartCol);
+        }
+        // if highlight is defined, the highlighted text is replaced by the new line(s)
+        if (this.highlightStartRow !== -1) {
+          this.deleteHighlightedText();
+        }
+        // for numTimes, split the current line at the caret and move the caret to the start of the new line
+        for (let i = 0; i < numTimes; i++) {
+          this.insertNewLineAtCaret();
+        }
+        break;
+      case "editor-type":
+        this.isSaved = false;
+        // typing a single opening bracket or quote with autoSurround wraps the highlighted text instead of replacing it
+        if (this.highlightStartRow !== -1 && this.shouldSurroundHighlightWith(action.value)) {
+          this.surroundHighlightedText(action.value);
+          break;
+        }
+        // if highlight is defined, delete everything between the caret position and the highlight position, and insert the typed text at the caret position
+        if (this.highlightStartRow !== -1) {
+          this.deleteHighlightedText();
+        }
+        // with type-editor, the caret is always at the end of the typed text - newlines in the value split the line
+        for (let i = 0; i < numTimes; i++) {
+          this.typeTextAtCaret(action.value);
+        }
+        break;
+      case "editor-arrow-down":
+        // for numTimes, move the caret down if the current row is not the last row
+        for (let i = 0; i < numTimes; i++) {
+          if (this.caretRow < this.buffer.getLineCount() - 1) {
+            this.moveCaretToRow(this.caretRow + 1);
+          }
+        }
+        this.clearCurrentHighlightedCode();
+        break;
+      case "editor-arrow-up":
+        // for numTimes, move the caret up if the current row is not the first row
+        for (let i = 0; i < numTimes; i++) {
+          if (this.caretRow > 0) {
+            this.moveCaretToRow(this.caretRow - 1);
+          }
+        }
+        this.clearCurrentHighlightedCode();
+        break;
+      case "editor-arrow-right":
+        // for numTimes, move the caret right - if we are at the end of a line and there are more lines below the current line, move to the start of the next line
+        for (let i = 0; i < numTimes; i++) {
+          if (this.caretCol < currentLineLength) {
+            this.caretCol++;
+          } else if (this.caretRow < this.buffer.getLineCount() - 1) {
+            this.caretRow++;
+            this.caretCol = 0;
+          }
+        }
+        this.clearCurrentHighlightedCode();
+        break;
+      case "editor-arrow-left":
+        // for numTimes, move the caret left - if we are at the start of a line and there are more lines above the current line, move to the end of the previous line
+        for (let i = 0; i < numTimes; i++) {
+          if (this.caretCol > 0) {
+            this.caretCol--;
+          } else if (this.caretRow > 0) {
+            this.caretRow--;
+            this.caretCol = this.buffer.getLineLength(this.caretRow);
+          }
+        }
+        this.clearCurrentHighlightedCode();
+        break;
+      case "editor-backspace":
+        this.isSaved = false;
+        if (this.highlightStartRow !== -1) {
+          this.deleteHighlightedText();
+        } else {
+          // Standard backspace behavior - at the start of a line, join it with the previous line
+          for (let i = 0; i < numTimes; i++) {
+            if (this.caretCol > 0) {
+              // between an empty pair of brackets or quotes, autoClosingDelete removes the closing character as well
+              const deletedLength = this.shouldDeleteAutoClosingPair() ? 2 : 1;
+              this.autoClosedCharacters = this.autoClosedCharacters.filter(
+                (position) => position.row !== this.caretRow || position.col !== this.caretCol
+              );
+              this.autoClosedCharacters.forEach((position) => {
+                if (position.row === this.caretRow && position.col > this.caretCol) {
+                  position.col -= deletedLength;
+                }
+              });
+              this.replaceRange(this.caretRow, this.caretCol - 1, this.caretRow, this.caretCol - 1 + deletedLength, "");
+              this.caretCol--;
+            } else if (this.caretRow > 0) {
+              this.autoClosedCharacters = [];
+              const previousLineLength = this.buffer.getLineLength(this.caretRow - 1);
+              this.replaceRange(this.caretRow - 1, previousLineLength, this.caretRow, 0, "");
+              this.caretRow--;
+              this.caretCol = previousLineLength;
+            }
+          }
+        }
+        break;
+      case "editor-space":
+        this.isSaved = false;
+        // if highlight is defined, delete everything between the caret position and the highlight position
+        if (this.highlightStartRow !== -1) {
+          this.deleteHighlightedText();
+        }
+
+        // Insert spaces one at a time to properly handle the numTimes parameter
+        for (let i = 0; i < numTimes; i++) {
+          this.insertTextAtCaret(" ");
+        }
+        break;
+      case "editor-tab": {
+        this.isSaved = false;
+        const range = this.getOrderedHighlightRange();
+        if (range && range.endRow > range.startRow) {
+          // a highlight over multiple lines indents every touched line, the highlight grows along with it
+          for (let i = 0; i < numTimes; i++) {
+            this.indentTouchedLines();
+          }
+          this.currentlyHighlightedCode = this.calculateHighlightedText();
+          break;
+        }
+        // otherwise the highlighted text is replaced, and for numTimes, a tab is inserted at the current caret position
+        if (range) {
+          this.deleteHighlightedText();
+        }
+        for (let i = 0; i < numTimes; i++) {
+          this.insertTextAtCaret(this.getTabTextAtCaret());
+        }
+        break;
+      }
+      case "editor-shift+tab":
+        this.isSaved = false;
+        // for numTimes, outdent every line touched by the caret or highlight
+        for (let i = 0; i < numTimes; i++) {
+          this.outdentTouchedLines();
+        }
+        this.currentlyHighlightedCode = this.calculateHighlightedText();
+        break;
+      case "editor-command-left":
+        // for numTimes, move the caret to the start of the current line if the current caretColumn is not 0
+        for (let i = 0; i < numTimes; i++) {
+          if (this.caretCol > 0) {
+            this.caretCol = 0;
+          }
+        }
+        // Clear any existing highlight when moving cursor
+        this.clearCurrentHighlightedCode();
+        break;
+      case "editor-command-right":
+        // for numTimes, move the caret to the end of the current line 
+        for (let i = 0; i < numTimes; i++) {
+          if (this.caretCol < this.buffer.getLineLength(this.caretRow)) {
+            this.caretCol = this.buffer.getLineLength(this.caretRow);
+          }
+        }
+        // Clear any existing highlight when moving cursor
+        this.clearCurrentHighlightedCode();
+        break;
+      case "editor-option-arrow-left":
+        // for numTimes, move the caret to the start of the previous word
+        for (let i = 0; i < numTimes; i++) {
+          this.moveCaretWordLeft();
+        }
+        this.clearCurrentHighlightedCode();
+        break;
+      case "editor-option-arrow-right":
+        // for numTimes, move the caret to the end of the next word
+        for (let i = 0; i < numTimes; i++) {
+          this.moveCaretWordRight();
+        }
+        this.clearCurrentHighlightedCode();
+        break;
+      case "editor-shift+option-arrow-left":
+        // If no highlight exists yet, set the start position
+        if (this.highlightStartRow === -1) {
+          this.highlightStartRow = this.caretRow;
+          this.highlightStartCol = this.caretCol;
+        }
+        for (let i = 0; i < numTimes; i++) {
+          this.moveCaretWordLeft();
+        }
+        this.currentlyHighlightedCode = this.calculateHighlightedText();
+        break;
+      case "editor-shift+option-arrow-right":
+        // If no highlight exists yet, set the start position
+        if (this.highlightStartRow === -1) {
+          this.highlightStartRow = this.caretRow;
+          this.highlightStartCol = this.caretCol;
+        }
+        for (let i = 0; i < numTimes; i++) {
+          this.moveCaretWordRight();
+        }
+        this.currentlyHighlightedCode = this.calculateHighlightedText();
+        break;
+      case "editor-option-backspace":
+        this.isSaved = false;
+        if (this.highlightStartRow !== -1) {
+          this.deleteHighlightedText();
+          break;
+        }
+        // for numTimes, delete back to the start of the previous word - at the start of a line, join it with the previous line
+        for (let i = 0; i < numTimes; i++) {
+          if (this.caretCol === 0) {
+            if (this.caretRow > 0) {
+              const previousLineLength = this.buffer.getLineLength(this.caretRow - 1);
+              this.replaceRange(this.caretRow - 1, previousLineLength, this.caretRow, 0, "");
+              this.caretRow--;
+              this.caretCol = previousLineLength;
+            }
+            continue;
+          }
+          const line = this.buffer.getLine(this.caretRow);
+          let deleteFromCol = findPreviousWordStart(line, this.caretCol, this.options.wordSeparators);
+          // like VS Code, a run of at least two whitespace characters is deleted on its own
+          const whitespaceStartCol = line.substring(0, this.caretCol).trimEnd().length;
+          if (this.caretCol - whitespaceStartCol >= 2) {
+            deleteFromCol = whitespaceStartCol;
+          }
+          this.replaceRange(this.caretRow, deleteFromCol, this.caretRow, this.caretCol, "");
+          this.caretCol = deleteFromCol;
+        }
+        break;
+      case "editor-command-backspace":
+        this.isSaved = false;
+        if (this.highlightStartRow !== -1) {
+          this.deleteHighlightedText();
+          break;
+        }
+        // for numTimes, delete back to the start of the line - at the start of a line, join it with the previous line
+        for (let i = 0; i < numTimes; i++) {
+          if (this.caretCol > 0) {
+            this.replaceRange(this.caretRow, 0, this.caretRow, this.caretCol, "");
+            this.caretCol = 0;
+          } else if (this.caretRow > 0) {
+            const previousLineLength = this.buffer.getLineLength(this.caretRow - 1);
+            this.replaceRange(this.caretRow - 1, previousLineLength, this.caretRow, 0, "");
+            this.caretRow--;
+            this.caretCol = previousLineLength;
+          }
+        }
+        break;
+      case "editor-shift+arrow-left":
+        // If no highlight exists yet, set the start position
+        if (this.highlightStartRow === -1) {
+          this.highlightStartRow = this.caretRow;
+          this.highlightStartCol = this.caretCol;
+        }
+
+        // Move caret left for numTimes
+        for (let i = 0; i < numTimes; i++) {
+          if (this.caretCol > 0) {
+            this.caretCol--;
+          } else if (this.caretRow > 0) {
+            this.caretRow--;
+            this.caretCol = this.buffer.getLineLength(this.caretRow);
+          }
+        }
+
+        this.currentlyHighlightedCode = this.calculateHighlightedText();
+        break;
+      case "editor-shift+arrow-right":
+          // If no highlight exists yet, set the start position
+          if (this.highlightStartRow === -1) {
+            this.highlightStartRow = this.caretRow;
+            this.highlightStartCol = this.caretCol;
+          }
+  
+          // Move caret right for numTimes
+          for (let i = 0; i < numTimes; i++) {
+            if (this.caretCol < this.buffer.getLineLength(this.caretRow)) {
+              this.caretCol++;
+            } else if (this.caretRow < this.buffer.getLineCount() - 1) {
+              this.caretRow++;
+              this.caretCol = 0;
+            }
+          }
+  
+          this.currentlyHighlightedCode = this.calculateHighlightedText();
+          break;
+      case "editor-shift+arrow-down":
+        // If no highlight exists yet, set the start position
+        if (this.highlightStartRow === -1) {
+          this.highlightStartRow = this.caretRow;
+          this.highlightStartCol = this.caretCol;
+        }
+
+        // Move caret down for numTimes - the caret goes to the desired column, or to the end of the next line if it is shorter
+        for (let i = 0; i < numTimes; i++) {
+          if (this.caretRow < this.buffer.getLineCount() - 1) {
+            this.moveCaretToRow(this.caretRow + 1);
+          }
+        }
+
+        this.currentlyHighlightedCode = this.calculateHighlightedText();
+        break;
+      case "editor-shift+arrow-up":
+        // If no highlight exists yet, set the start position
+        if (this.highlightStartRow === -1) {
+          this.highlightStartRow = this.caretRow;
+          this.highlightStartCol = this.caretCol;
+        }
+
+        // Move caret up for numTimes - the caret goes to the desired column, or to the end of the previous line if it is shorter
+        for (let i = 0; i < numTimes; i++) {
+          if (this.caretRow > 0) {
+            this.moveCaretToRow(this.caretRow - 1);
+          }
+        }
+
+        this.currentlyHighlightedCode = this.calculateHighlightedText();
+        break;
+        case "editor-save":
+          this.isSaved = true;
+          break;
+      case "editor-command-c":
+      case "editor-copy":
+        this.copyToClipboard();
+        // copying keeps the highlight as it is
+        this.currentlyHighlightedCode = this.calculateHighlightedText();
+        break;
+      case "editor-cut":
+        this.isSaved = false;
+        this.copyToClipboard();
+        this.cutAtCaret();
+        break;
+      case "editor-command-v":
+      case "editor-paste":
+        this.isSaved = false;
+        for (let i = 0; i < numTimes; i++) {
+          this.pasteAtCaret(this.clipboard.getText(), this.clipboard.getIsWholeLine());
+        }
+        break;
+      case "editor-move-line-up":
+        this.isSaved = false;
+        // for numTimes, swap the touched lines with the line above them - the caret and highlight move along with the lines
+        for (let i = 0; i < numTimes; i++) {
+          const { startRow, endRow } = this.getTouchedLineRange();
+          if (startRow === 0) {
+            break;
+          }
+          const movedLines = this.getLinesBetween(startRow, endRow + 1);
+          movedLines.push(this.buffer.getLine(startRow - 1));
+          this.replaceRange(startRow - 1, 0, endRow, this.buffer.getLineLength(endRow), movedLines.join("\n"));
+          this.caretRow--;
+          if (this.highlightStartRow !== -1) {
+            this.highlightStartRow--;
+          }
+        }
+        this.currentlyHighlightedCode = this.calculateHighlightedText();
+        break;
+      case "editor-move-line-down":
+        this.isSaved = false;
+        // for numTimes, swap the touched lines with the line below them - the caret and highlight move along with the lines
+        for (let i = 0; i < numTimes; i++) {
+          const { startRow, endRow } = this.getTouchedLineRange();
+          if (endRow === this.buffer.getLineCount() - 1) {
+            break;
+          }
+          const movedLines = [this.buffer.getLine(endRow + 1), ...this.getLinesBetween(startRow, endRow + 1)];
+          this.replaceRange(startRow, 0, endRow + 1, this.buffer.getLineLength(endRow + 1), movedLines.join("\n"));
+          this.caretRow++;
+          if (this.highlightStartRow !== -1) {
+            this.highlightStartRow++;
+          }
+        }
+        this.currentlyHighlightedCode = this.calculateHighlightedText();
+        break;
+      case "editor-copy-line-down":
+        this.isSaved = false;
+        // for numTimes, duplicate the touched lines below themselves - the caret and highlight move to the copy
+        for (let i = 0; i < numTimes; i++) {
+          const { startRow, endRow } = this.getTouchedLineRange();
+          const copiedLines = this.getLinesBetween(startRow, endRow + 1);
+          const endRowLength = this.buffer.getLineLength(endRow);
+          this.replaceRange(endRow, endRowLength, endRow, endRowLength, "\n" + copiedLines.join("\n"));
+          this.caretRow += copiedLines.length;
+          if (this.highlightStartRow !== -1) {
+            this.highlightStartRow += copiedLines.length;
+          }
+        }
+        this.currentlyHighlightedCode = this.calculateHighlightedText();
+        break;
+      case "editor-copy-line-up":
+        this.isSaved = false;
+        // for numTimes, duplicate the touched lines above themselves - the caret and highlight stay on the upper copy
+        for (let i = 0; i < numTimes; i++) {
+          const { startRow, endRow } = this.getTouchedLineRange();
+          const copiedLines = this.getLinesBetween(startRow, endRow + 1);
+          this.replaceRange(startRow, 0, startRow, 0, copiedLines.join("\n") + "\n");
+        }
+        this.currentlyHighlightedCode = this.calculateHighlightedText();
+        break;
+      case "editor-delete-line": {
+        this.isSaved = false;
+        // delete the touched lines, the caret keeps its column (as far as possible) on the line that takes their place
+        const { startRow, endRow } = this.getTouchedLineRange();
+        if (endRow < this.buffer.getLineCount() - 1) {
+          this.replaceRange(startRow, 0, endRow + 1, 0, "");
+          this.caretRow = startRow;
+        } else if (startRow > 0) {
+          this.replaceRange(startRow - 1, this.buffer.getLineLength(startRow - 1), endRow, this.buffer.getLineLength(endRow), "");
+          this.caretRow = startRow - 1;
+        } else {
+          this.replaceRange(0, 0, endRow, this.buffer.getLineLength(endRow), "");
+          this.caretRow = 0;
+        }
+        this.caretCol = Math.min(this.caretCol, this.buffer.getLineLength(this.caretRow));
+        this.clearCurrentHighlightedCode();
+        break;
+      }
+      case "editor-add-cursor-above":
+        // for numTimes, add a cursor on the row above the topmost cursor, at its desired column
+        for (let i = 0; i < numTimes; i++) {
+          const topCursor = this.getCursorsInDocumentOrder()[0];
+          if (topCursor.caretRow === 0) {
+            break;
+          }
+          this.addCursorAtRow(topCursor, topCursor.caretRow - 1);
+        }
+        break;
+      case "editor-add-cursor-below": {
+        // for numTimes, add a cursor on the row below the bottommost cursor, at its desired column
+        for (let i = 0; i < numTimes; i++) {
+          const cursors = this.getCursorsInDocumentOrder();
+          const bottomCursor = cursors[cursors.length - 1];
+          if (bottomCursor.caretRow === this.buffer.getLineCount() - 1) {
+            break;
+          }
+          this.addCursorAtRow(bottomCursor, bottomCursor.caretRow + 1);
+        }
+        break;
+      }
+      case "editor-cmd+d":
+      case "editor-command-d":
+      case "editor-add-next-occurrence":
+        // for numTimes, select the word at the caret, or add a cursor selecting the next occurrence of the highlighted text
+        for (let i = 0; i < numTimes; i++) {
+          this.addNextOccurrence();
+        }
+        this.currentlyHighlightedCode = this.calculateHighlightedText();
+        break;
+      case "editor-escape":
+        // like in VS Code, escape first removes the secondary cursors, and then the highlight
+        if (this.secondaryCursors.length > 0) {
+          this.secondaryCursors = [];
+          this.currentlyHighlightedCode = this.calculateHighlightedText();
+        } else {
+          this.clearCurrentHighlightedCode();
+        }
+        break;
+      case "editor-find": {
+        // like in VS Code, opening the find widget without a query searches for the highlighted text or the word at the caret
+        let query = action.value;
+        if (query === "") {
+          const word = findWordAt(this.buffer.getLine(this.caretRow), this.caretCol, this.options.wordSeparators);
+          const highlightedText = this.calculateHighlightedText();
+          if (highlightedText !== "" && !highlightedText.includes("\n")) {
+            query = highlightedText;
+          } else if (highlightedText === "" && word) {
+            query = this.buffer.getLine(this.caretRow).substring(word.startCol, word.endCol);
+          } else {
+            query = this.findWidget.query;
+          }
+        }
+        this.findWidget.isOpen = true;
+        this.findWidget.query = query;
+        this.selectNearestFindMatch();
+        break;
+      }
+      case "editor-find-next":
+        // for numTimes, highlight the next match after the caret, wrapping around at the end of the code
+        for (let i = 0; i < numTimes; i++) {
+          this.updateFindWidgetMatches();
+          this.selectFindMatch(this.getNextFindMatchIndex());
+        }
+        break;
+      case "editor-find-previous":
+        // for numTimes, highlight the previous match before the caret, wrapping around at the start of the code
+        for (let i = 0; i < numTimes; i++) {
+          this.updateFindWidgetMatches();
+          this.selectFindMatch(this.getPreviousFindMatchIndex());
+        }
+        break;
+      case "editor-replace": {
+        // like in VS Code, the active match is replaced and the next match is highlighted - without an active match, the next match is only highlighted
+        this.findWidget.isOpen = true;
+        this.findWidget.replaceText = action.value;
+        this.updateFindWidgetMatches();
+        const activeMatch = this.findWidgetMatches[this.findWidget.activeMatchIndex];
+        if (activeMatch) {
+          this.isSaved = false;
+          const end = this.replaceRange(
+            activeMatch.start.row,
+            activeMatch.start.col,
+            activeMatch.end.row,
+            activeMatch.end.col,
+            this.getFindReplaceText(activeMatch)
+          );
+          this.clearCurrentHighlightedCode();
+          this.caretRow = end.row;
+          this.caretCol = end.col;
+          this.updateFindWidgetMatches();
+        }
+        this.selectFindMatch(this.getNextFindMatchIndex());
+        break;
+      }
+      case "editor-replace-all":
+        // every match is replaced, starting with the last one so the positions of the others stay valid
+        this.findWidget.isOpen = true;
+        this.findWidget.replaceText = action.value;
+        this.updateFindWidgetMatches();
+        if (this.findWidgetMatches.length > 0) {
+          this.isSaved = false;
+        }
+        this.findWidgetMatches
+          .slice()
+          .reverse()
+          .forEach((match) => {
+            const end = this.replaceRange(match.start.row, match.start.col, match.end.row, match.end.col, this.getFindReplaceText(match));
+            const caret = mapPositionThroughEdit({ row: this.caretRow, col: this.caretCol }, match.start, match.end, end);
+            this.caretRow = caret.row;
+            this.caretCol = caret.col;
+          });
+        this.clearCurrentHighlightedCode();
+        break;
+      case "editor-toggle-find-regex":
+        this.findWidget.isRegex = !this.findWidget.isRegex;
+        this.selectNearestFindMatch();
+        break;
+      case "editor-toggle-find-case-sensitive":
+        this.findWidget.isCaseSensitive = !this.findWidget.isCaseSensitive;
+        this.selectNearestFindMatch();
+        break;
+      case "editor-toggle-find-whole-word":
+        this.findWidget.isWholeWord = !this.findWidget.isWholeWord;
+        this.selectNearestFindMatch();
+        break;
+      case "editor-close-find":
+        this.findWidget.isOpen = false;
+        break;
+      case "editor-goto-line": {
+        // the value is a PHYSICAL row, or row:col - like in VS Code, positions outside of the code are clamped to it
+        const [row, col] = action.value.split(":").map((part) => parseInt(part));
+        if (isNaN(row)) {
+          if (this.verbose) {
+            console.log(`WARNING: codevideo-virtual-editor: editor-goto-line value '${action.value}' is not a row or row:col.`);
+          }
+          break;
+        }
+        this.secondaryCursors = [];
+        this.clearCurrentHighlightedCode();
+        this.caretRow = Math.min(Math.max(row, 1), this.buffer.getLineCount()) - 1;
+        this.caretCol = isNaN(col) ? 0 : Math.min(Math.max(col, 1), this.buffer.getLineLength(this.caretRow) + 1) - 1;
+        break;
+      }
+      case "editor-goto-text":
+      case "editor-select-text": {
+        // move the caret to the start of an occurrence of the text, or highlight the occurrence with the caret at its end
+        const { query, isRegex, isCaseSensitive, occurrence } = parseGotoTextValue(action.value);
+        const matches = findMatches(this.buffer, query, isRegex, isCaseSensitive, false, this.options.wordSeparators);
+        const match = matches[occurrence > 0 ? occurrence - 1 : matches.length + occurrence];
+        if (!match) {
+          if (this.verbose) {
+            console.log(`WARNING: codevideo-virtual-editor: ${action.name} found no occurrence ${occurrence} of '${query}'.`);
+          }
+          break;
+        }
+        this.secondaryCursors = [];
+        this.clearCurrentHighlightedCode();
+        if (action.name === "editor-select-text") {
+          this.highlightStartRow = match.start.row;
+          this.highlightStartCol = match.start.col;
+          this.caretRow = match.end.row;
+          this.caretCol = match.end.col;
+          this.currentlyHighlightedCode = this.calculateHighlightedText();
+        } else {
+          this.caretRow = match.start.row;
+          this.caretCol = match.start.col;
+        }
+        break;
+      }
+      case "editor-undo":
+        for (let i = 0; i < numTimes; i++) {
+          const editGroup = this.undoStack.pop();
+          if (!editGroup) {
+            break;
+          }
+          this.revertTextEdits(editGroup.edits);
+          this.setEditState(editGroup.before);
+          this.redoStack.push(editGroup);
+          this.isSaved = false;
+        }
+        this.isLastEditGroupOpen = false;
+        break;
+      case "editor-redo":
+        for (let i = 0; i < numTimes; i++) {
+          const editGroup = this.redoStack.pop();
+          if (!editGroup) {
+            break;
+          }
+          this.applyTextEdits(editGroup.edits);
+          this.setEditState(editGroup.after);
+          this.undoStack.push(editGroup);
+          this.isSaved = false;
+        }
+        this.isLastEditGroupOpen = false;
+        break;
+      default:
+        if (this.verbose) {
+          console.log(`WARNING: codevideo-virtual-editor: Action ${action.name} not recognized.`);
+        }
+        break;
+    }
+  }
+
+  // Helper function to apply an action at every cursor, starting with the cursor furthest down so its edits don't move the text of the cursors still to come
+  private applyActionAtEveryCursor(action: IVirtualEditorAction, numTimes: number) {
+    const primaryCursor = this.getActiveCursor();
+    const cursors = [primaryCursor, ...this.secondaryCursors];
+    const cursorsInDocumentOrder = cursors.slice().sort(compareCursors);
+
+    let pastedTexts: Array<string> | null = null;
+    switch (action.name) {
+      case "editor-copy":
+      case "editor-command-c":
+        // copying doesn't change anything at the cursors, it only collects the text of each of them
+        this.copyAtEveryCursor(cursorsInDocumentOrder);
+        this.currentlyHighlightedCode = this.calculateHighlightedText();
+        return;
+      case "editor-cut":
+        this.copyAtEveryCursor(cursorsInDocumentOrder);
+        break;
+      case "editor-paste":
+      case "editor-command-v":
+        pastedTexts = this.getPastedTextPerCursor(cursors.length);
+        break;
+    }
+
+    let isPrimaryHighlightShown = false;
+    cursorsInDocumentOrder
+      .slice()
+      .reverse()
+      .forEach((cursor) => {
+        // while the action is applied at this cursor, the other cursors are moved along by its edits
+        this.secondaryCursors = cursors.filter((otherCursor) => otherCursor !== cursor);
+        this.setActiveCursor(cursor);
+        this.currentlyHighlightedCode = "";
+
+        if (action.name === "editor-cut") {
+          this.isSaved = false;
+          this.cutAtCaret();
+        } else if (pastedTexts) {
+          this.isSaved = false;
+          const pastedText = pastedTexts[cursorsInDocumentOrder.indexOf(cursor)];
+          for (let i = 0; i < numTimes; i++) {
+            this.pasteAtCaret(pastedText, this.clipboard.getIsWholeLine());
+          }
+        } else {
+          this.applyActionAtCaret(action, numTimes);
+        }
+
+        Object.assign(cursor, this.getActiveCursor());
+        if (cursor === primaryCursor) {
+          isPrimaryHighlightShown = this.currentlyHighlightedCode !== "";
+        }
+      });
+
+    this.setActiveCursor(primaryCursor);
+    this.secondaryCursors = cursors.filter((cursor) => cursor !== primaryCursor);
+    this.mergeCursors();
+    // the highlighted text of the primary cursor may have been moved or changed by the edits at the other cursors
+    this.currentlyHighlightedCode = isPrimaryHighlightShown ? this.calculateHighlightedText() : "";
+  }
+
+  // Helper function to get the state of the active cursor, i.e. the cursor made up of the caret and highlight fields
+  private getActiveCursor(): ICursorState {
+    return {
+      caretRow: this.caretRow,
+      caretCol: this.caretCol,
+      highlightStartRow: this.highlightStartRow,
+      highlightStartCol: this.highlightStartCol,
+      desiredCol: this.desiredCol,
+    };
+  }
+
+  // Helper function to make the given cursor the active cursor
+  private setActiveCursor(cursor: ICursorState) {
+    this.caretRow = cursor.caretRow;
+    this.caretCol = cursor.caretCol;
+    this.highlightStartRow = cursor.highlightStartRow;
+    this.highlightStartCol = cursor.highlightStartCol;
+    this.desiredCol = cursor.desiredCol;
+  }
+
+  // Helper function to get copies of every cursor, sorted by their caret positions
+  private getCursorsInDocumentOrder(): Array<ICursorState> {
+    return [this.getActiveCursor(), ...this.secondaryCursors.map((cursor) => ({ ...cursor }))].sort(compareCursors);
+  }
+
+  // Helper function to remove secondary cursors whose caret ended up at the same position as the caret of another cursor
+  private mergeCursors() {
+    const keptCursors = [this.getActiveCursor()];
+    this.secondaryCursors = this.secondaryCursors.filter((cursor) => {
+      const isDuplicate = keptCursors.some(
+        (keptCursor) => keptCursor.caretRow === cursor.caretRow && keptCursor.caretCol === cursor.caretCol
+      );
+      if (!isDuplicate) {
+        keptCursors.push(cursor);
+      }
+      return !isDuplicate;
+    });
+  }
+
+  // Helper function to add a secondary cursor on the given row, at the desired column of the cursor it is added from
+  private addCursorAtRow(fromCursor: ICursorState, row: number) {
+    const desiredCol = fromCursor.desiredCol === -1 ? fromCursor.caretCol : fromCursor.desiredCol;
+    this.secondaryCursors.push({
+      caretRow: row,
+      caretCol: Math.min(desiredCol, this.buffer.getLineLength(row)),
+      highlightStartRow: -1,
+      highlightStartCol: -1,
+      desiredCol,
+    });
+    this.mergeCursors();
+  }
+
+  // Helper function for cmd+d - without a highlight, the word at the caret is highlighted, otherwise a cursor is added highlighting the next occurrence of the highlighted text
+  private addNextOccurrence() {
+    if (this.highlightStartRow === -1) {
+      const word = findWordAt(this.buffer.getLine(this.caretRow), this.caretCol, this.options.wordSeparators);
+      if (word) {
+        this.highlightStartRow = this.caretRow;
+        this.highlightStartCol = word.startCol;
+        this.caretCol = word.endCol;
+        this.isNextOccurrenceWholeWord = true;
+      }
+      return;
+    }
+
+    const searchText = this.calculateHighlightedText();
+    if (searchText.length === 0) {
+      return;
+    }
+    const cursors = this.getCursorsInDocumentOrder();
+    const lastCursor = cursors[cursors.length - 1];
+    const lastCursorCaret = { row: lastCursor.caretRow, col: lastCursor.caretCol };
+    const lastCursorHighlightStart = { row: lastCursor.highlightStartRow, col: lastCursor.highlightStartCol };
+    const lastCursorEnd =
+      lastCursor.highlightStartRow !== -1 && isPositionBefore(lastCursorCaret, lastCursorHighlightStart) ? lastCursorHighlightStart : lastCursorCaret;
+
+    // the search continues after the last cursor, and wraps around to the start of the code
+    const matches = findMatches(this.buffer, searchText, false, true, this.isNextOccurrenceWholeWord, this.options.wordSeparators);
+    const match = matches.find((candidate) => !isPositionBefore(candidate.start, lastCursorEnd)) ?? matches[0];
+    if (!match) {
+      return;
+    }
+    const { start, end } = match;
+    // once every occurrence has a cursor, there is nothing left to add
+    if (cursors.some((cursor) => cursor.caretRow === end.row && cursor.caretCol === end.col)) {
+      return;
+    }
+    this.secondaryCursors.push({
+      caretRow: end.row,
+      caretCol: end.col,
+      highlightStartRow: start.row,
+      highlightStartCol: start.col,
+      desiredCol: -1,
+    });
+  }
+
+  // Helper function to put the text of every cursor on the clipboard, one cursor per line - whole lines if none of the cursors has a highlight
+  private copyAtEveryCursor(cursorsInDocumentOrder: Array<ICursorState>) {
+    const activeCursor = this.getActiveCursor();
+    const isWholeLine = cursorsInDocumentOrder.every((cursor) => cursor.highlightStartRow === -1);
+    const copiedTexts = cursorsInDocumentOrder.map((cursor) => {
+      this.setActiveCursor(cursor);
+      return isWholeLine ? this.buffer.getLine(cursor.caretRow) + "\n" : this.calculateHighlightedText();
+    });
+    this.setActiveCursor(activeCursor);
+    this.clipboard.setText(copiedTexts.join(isWholeLine ? "" : "\n"), isWholeLine);
+  }
+
+  // Helper function to get the text pasted at each cursor (in document order) - like in VS Code, the clipboard is spread over the cursors if it holds one line per cursor
+  private getPastedTextPerCursor(cursorCount: number): Array<string> {
+    const clipboardText = this.clipboard.getText();
+    const lines = this.clipboard.getIsWholeLine()
+      ? clipboardText.substring(0, clipboardText.length - 1).split("\n").map((line) => line + "\n")
+      : clipboardText.split("\n");
+    if (lines.length === cursorCount) {
+      return lines;
+    }
+    return new Array<string>(cursorCount).fill(clipboardText);
+  }
+
+  // Helper function to cut the highlighted text, or the whole current line if nothing is highlighted - the text has to be copied beforehand
+  private cutAtCaret() {
+    if (this.highlightStartRow !== -1) {
+      // same as a backspace on the highlight
+      this.deleteHighlightedText();
+      return;
+    }
+    // without a highlight, the whole line is cut and the caret keeps its column on the line below
+    if (this.buffer.getLineCount() === 1) {
+      this.replaceRange(0, 0, 0, this.buffer.getLineLength(0), "");
+    } else if (this.caretRow === this.buffer.getLineCount() - 1) {
+      this.replaceRange(this.caretRow - 1, this.buffer.getLineLength(this.caretRow - 1), this.caretRow, this.buffer.getLineLength(this.caretRow), "");
+      this.caretRow--;
+    } else {
+      this.replaceRange(this.caretRow, 0, this.caretRow + 1, 0, "");
+    }
+    this.caretCol = Math.min(this.caretCol, this.buffer.getLineLength(this.caretRow));
+  }
+
+  // Helper function to paste text at the caret - whole lines are pasted above the current line when nothing is highlighted
+  private pasteAtCaret(text: string, isWholeLine: boolean) {
+    if (isWholeLine && this.highlightStartRow === -1) {
+      // the caret moves down along with its line
+      const insertedLinesEnd = this.replaceRange(this.caretRow, 0, this.caretRow, 0, text);
+      this.caretRow = insertedLinesEnd.row;
+      return;
+    }
+    if (this.highlightStartRow !== -1) {
+      this.deleteHighlightedText();
+    }
+    this.insertTextAtCaret(text);
+  }
+
+  // Helper function to get the index of every step, for the getters that return something for each step
+  private getStepIndices(): Array<number> {
+    return Array.from({ length: this.codeLinesHistory.getLength() }, (_, index) => index);
+  }
+
+  // Helper function to replace the text between two LOGICAL positions, returns the LOGICAL position at the end of the inserted text
+  private replaceRange(
+    startRow: number,
+    startCol: number,
+    endRow: number,
+    endCol: number,
+    text: string
+  ): IEditorPosition {
+    const removedText = this.getTextBetween(startRow, startCol, endRow, endCol);
+    const versionIdBefore = this.buffer.getVersionId();
+    const end = this.buffer.replace(startRow, startCol, endRow, endCol, text);
+    this.markRowsChanged(startRow, endRow + 1, end.row + 1);
+
+    // the undo stack only keeps what was replaced, text replaced with the same text being no edit at all
+    if (this.buffer.getVersionId() !== versionIdBefore) {
+      this.textEdits.push({ row: startRow, col: startCol, removedText, insertedText: text.replace(/\r\n?/g, "\n") });
+    }
+
+    // the other cursors keep pointing at the same text
+    const start = { row: startRow, col: startCol };
+    const oldEnd = { row: endRow, col: endCol };
+    this.secondaryCursors.forEach((cursor) => {
+      const caret = mapPositionThroughEdit({ row: cursor.caretRow, col: cursor.caretCol }, start, oldEnd, end);
+      cursor.caretRow = caret.row;
+      cursor.caretCol = caret.col;
+      if (cursor.highlightStartRow !== -1) {
+        const highlightStart = mapPositionThroughEdit(
+          { row: cursor.highlightStartRow, col: cursor.highlightStartCol },
+          start,
+          oldEnd,
+          end
+        );
+        cursor.highlightStartRow = highlightStart.row;
+        cursor.highlightStartCol = highlightStart.col;
+      }
+    });
+    return end;
+  }
+
+  // Helper function to insert text at the caret, leaving the caret at the end of the inserted text
+  private insertTextAtCaret(text: string) {
+    const end = this.replaceRange(this.caretRow, this.caretCol, this.caretRow, this.caretCol, text);
+    this.caretRow = end.row;
+    this.caretCol = end.col;
+  }
+
+  // Helper function to move the caret vertically to the given row, going to the desired column or to the end of the row if it is shorter
+  private moveCaretToRow(row: number) {
+    if (this.desiredCol === -1) {
+      this.desiredCol = this.caretCol;
+    }
+    this.caretRow = row;
+    this.caretCol = Math.min(this.desiredCol, this.buffer.getLineLength(row));
+  }
+
+  // Helper function to move the caret to the start of the previous word - at the start of a line, the search continues on the previous line
+  private moveCaretWordLeft() {
+    if (this.caretCol === 0) {
+      if (this.caretRow === 0) {
+        return;
+      }
+      this.caretRow--;
+      this.caretCol = this.buffer.getLineLength(this.caretRow);
+    }
+    this.caretCol = findPreviousWordStart(this.buffer.getLine(this.caretRow), this.caretCol, this.options.wordSeparators);
+  }
+
+  // Helper function to move the caret to the end of the next word - at the end of a line, the search continues on the next line
+  private moveCaretWordRight() {
+    if (this.caretCol === this.buffer.getLineLength(this.caretRow)) {
+      if (this.caretRow === this.buffer.getLineCount() - 1) {
+        return;
+      }
+      this.caretRow++;
+      this.caretCol = 0;
+    }
+    this.caretCol = findNextWordEnd(this.buffer.getLine(this.caretRow), this.caretCol, this.options.wordSeparators);
+  }
+
+  // Helper function to get the string put between lines when the code is returned as a single string
+  private getEndOfLine(): string {
+    return this.options.eol === "CRLF" ? "\r\n" : "\n";
+  }
+
+  // Helper function to split the line at the caret, indenting the new line according to the autoIndent option
+  private insertNewLineAtCaret() {
+    const line = this.buffer.getLine(this.caretRow);
+    let indentation = "";
+    let increasedIndentation = "";
+    let closingText = "";
+    if (this.options.autoIndent !== "none") {
+      indentation = line.substring(0, line.length - line.trimStart().length).substring(0, this.caretCol);
+    }
+    if (this.options.autoIndent === "brackets") {
+      // the new line is indented one level deeper after an opening bracket (or whatever the language uses instead, like ':' in python)
+      const textBeforeCaret = line.substring(0, this.caretCol).trimEnd();
+      const lastCharacter = textBeforeCaret[textBeforeCaret.length - 1];
+      if (lastCharacter !== undefined && this.getIncreaseIndentAfter().includes(lastCharacter)) {
+        increasedIndentation = this.getIndentUnit();
+        // when the caret sits between a pair of brackets, the closing bracket goes onto its own line
+        const closingBracket = AutoClosingBracketPairs[lastCharacter];
+        if (closingBracket !== undefined && line.substring(this.caretCol).trimStart().startsWith(closingBracket)) {
+          closingText = "\n" + indentation;
+        }
+      }
+    }
+
+    // pressing enter on a line which only holds auto inserted whitespace leaves that line empty
+    if (this.options.trimAutoWhitespace && this.caretRow === this.autoWhitespaceRow && line.trim().length === 0) {
+      this.replaceRange(this.caretRow, 0, this.caretRow, line.length, "");
+      this.caretCol = 0;
+    }
+
+    this.insertTextAtCaret("\n" + indentation + increasedIndentation);
+    if (closingText.length > 0) {
+      this.replaceRange(this.caretRow, this.caretCol, this.caretRow, this.caretCol, closingText);
+    }
+    this.autoWhitespaceRow = indentation.length + increasedIndentation.length > 0 ? this.caretRow : -1;
+  }
+
+  // Helper function to get the characters after which the autoIndent brackets mode indents the new line one level deeper
+  private getIncreaseIndentAfter(): Array<string> {
+    if (this.options.increaseIndentAfter) {
+      return this.options.increaseIndentAfter;
+    }
+    const languageIncreaseIndentAfter = this.options.language
+      ? IncreaseIndentAfterByLanguage[this.options.language]
+      : undefined;
+    return languageIncreaseIndentAfter ? languageIncreaseIndentAfter : DefaultIncreaseIndentAfter;
+  }
+
+  // Helper function to remove the whitespace inserted by auto indentation after the caret has left its line without changing the code
+  private trimAutoInsertedWhitespace(versionIdBefore: number) {
+    if (this.autoWhitespaceRow === -1) {
+      return;
+    }
+    const row = this.autoWhitespaceRow;
+    if (this.buffer.getVersionId() !== versionIdBefore) {
+      // the whitespace was either used or moved by the edit, either way it is not ours to trim anymore
+      this.autoWhitespaceRow = -1;
+      return;
+    }
+    if (this.caretRow === row) {
+      return;
+    }
+    this.autoWhitespaceRow = -1;
+    if (!this.options.trimAutoWhitespace || this.buffer.getLine(row).trim().length > 0) {
+      return;
+    }
+    this.replaceRange(row, 0, row, this.buffer.getLineLength(row), "");
+    if (this.highlightStartRow === row) {
+      this.highlightStartCol = 0;
+      this.currentlyHighlightedCode = this.calculateHighlightedText();
+    }
+  }
+
+  // Helper function to type text at the caret, auto closing brackets and quotes and typing over closing characters according to the options
+  private typeTextAtCaret(text: string) {
+    if (
+      this.options.autoClosingBrackets === "never" &&
+      this.options.autoClosingQuotes === "never" &&
+      this.options.autoClosingOvertype !== "always"
+    ) {
+      this.insertTextAtCaret(text);
+      return;
+    }
+    for (const character of text) {
+      const line = this.buffer.getLine(this.caretRow);
+      const autoClosedIndex = this.autoClosedCharacters.findIndex(
+        (position) => position.row === this.caretRow && position.col === this.caretCol
+      );
+
+      // typing a closing character which is already there just moves the caret past it
+      const isClosingCharacter =
+        Object.values(AutoClosingBracketPairs).includes(character) || AutoClosingQuotes.includes(character);
+      if (
+        isClosingCharacter &&
+        line[this.caretCol] === character &&
+        (this.options.autoClosingOvertype === "always" ||
+          (this.options.autoClosingOvertype === "auto" && autoClosedIndex !== -1))
+      ) {
+        if (autoClosedIndex !== -1) {
+          this.autoClosedCharacters.splice(autoClosedIndex, 1);
+        }
+        this.caretCol++;
+        continue;
+      }
+
+      const closingCharacter = this.getAutoClosingCharacter(character);
+      const insertedText = closingCharacter !== undefined ? character + closingCharacter : character;
+
+      // anything auto closed further along the line moves along with the inserted text
+      this.autoClosedCharacters.forEach((position) => {
+        if (position.row === this.caretRow && position.col >= this.caretCol) {
+          position.col += insertedText.length;
+        }
+      });
+      this.insertTextAtCaret(insertedText);
+
+      if (character === "\n" || character === "\r") {
+        this.autoClosedCharacters = [];
+      } else if (closingCharacter !== undefined) {
+        this.caretCol--;
+        this.autoClosedCharacters.push({ row: this.caretRow, col: this.caretCol });
+      }
+    }
+  }
+
+  // Helper function to get the character which is automatically inserted after typing the given character at the caret, if any
+  private getAutoClosingCharacter(character: string): string | undefined {
+    const line = this.buffer.getLine(this.caretRow);
+    const previousCharacter = line[this.caretCol - 1];
+    const nextCharacter = line[this.caretCol];
+    const isBeforeWhitespace = nextCharacter === undefined || nextCharacter === " " || nextCharacter === "\t";
+
+    const closingBracket = AutoClosingBracketPairs[character];
+    if (closingBracket !== undefined) {
+      if (
+        this.options.autoClosingBrackets === "always" ||
+        (this.options.autoClosingBrackets === "beforeWhitespace" && isBeforeWhitespace)
+      ) {
+        return closingBracket;
+      }
+      return undefined;
+    }
+
+    if (AutoClosingQuotes.includes(character)) {
+      // like in VS Code, a quote typed right after a word (think "don't") is never closed
+      const isAfterWord =
+        previousCharacter !== undefined &&
+        getWordCharacterClass(previousCharacter, this.options.wordSeparators) === "regular";
+      if (
+        !isAfterWord &&
+        (this.options.autoClosingQuotes === "always" ||
+          (this.options.autoClosingQuotes === "beforeWhitespace" && isBeforeWhitespace))
+      ) {
+        return character;
+      }
+    }
+    return undefined;
+  }
+
+  // Helper function to check if a backspace at the caret deletes an empty pair of brackets or quotes according to the autoClosingDelete option
+  private shouldDeleteAutoClosingPair(): boolean {
+    if (this.options.autoClosingDelete === "never") {
+      return false;
+    }
+    const line = this.buffer.getLine(this.caretRow);
+    const openingCharacter = line[this.caretCol - 1];
+    const closingCharacter = line[this.caretCol];
+    const isPair =
+      closingCharacter !== undefined &&
+      (AutoClosingBracketPairs[openingCharacter] === closingCharacter ||
+        (AutoClosingQuotes.includes(openingCharacter) && openingCharacter === closingCharacter));
+    if (!isPair) {
+      return false;
+    }
+    return (
+      this.options.autoClosingDelete === "always" ||
+      this.autoClosedCharacters.some((position) => position.row === this.caretRow && position.col === this.caretCol)
+    );
+  }
+
+  // Helper function to check if typing the given text wraps the highlighted text according to the autoSurround option
+  private shouldSurroundHighlightWith(text: string): boolean {
+    const isBracket = AutoClosingBracketPairs[text] !== undefined;
+    const isQuote = AutoClosingQuotes.includes(text);
+    switch (this.options.autoSurround) {
+      case "always":
+        return isBracket || isQuote;
+      case "brackets":
+        return isBracket;
+      case "quotes":
+        return isQuote;
+      default:
+        return false;
+    }
+  }
+
+  // Helper function to wrap the highlighted text with an opening bracket or quote and its closing counterpart, keeping the wrapped text highlighted
+  private surroundHighlightedText(openingCharacter: string) {
+    const range = this.getOrderedHighlightRange();
+    if (!range) {
+      return;
+    }
+    const closingCharacter = AutoClosingBracketPairs[openingCharacter] !== undefined
+      ? AutoClosingBracketPairs[openingCharacter]
+      : openingCharacter;
+    const isForwardSelection = range.startRow === this.highlightStartRow && range.startCol === this.highlightStartCol;
+
+    this.replaceRange(range.endRow, range.endCol, range.endRow, range.endCol, closingCharacter);
+    this.replaceRange(range.startRow, range.startCol, range.startRow, range.startCol, openingCharacter);
+
+    const start = { row: range.startRow, col: range.startCol + 1 };
+    const end = { row: range.endRow, col: range.endRow === range.startRow ? range.endCol + 1 : range.endCol };
+    const anchor = isForwardSelection ? start : end;
+    const caret = isForwardSelection ? end : start;
+    this.highlightStartRow = anchor.row;
+    this.highlightStartCol = anchor.col;
+    this.caretRow = caret.row;
+    this.caretCol = caret.col;
+    this.currentlyHighlightedCode = this.calculateHighlightedText();
+  }
+
+  // Helper function to search the code for the query of the find widget again - the active match is the one that is highlighted, if any
+  private updateFindWidgetMatches() {
+    const { query, isRegex, isCaseSensitive, isWholeWord } = this.findWidget;
+    const matchesKey = JSON.stringify([this.buffer.getVersionId(), query, isRegex, isCaseSensitive, isWholeWord, this.options.wordSeparators]);
+    if (matchesKey !== this.findWidgetMatchesKey) {
+      this.findWidgetMatches = findMatches(this.buffer, query, isRegex, isCaseSensitive, isWholeWord, this.options.wordSeparators);
+      this.findWidgetMatchesKey = matchesKey;
+    }
+    const range = this.getOrderedHighlightRange();
+    this.findWidget.activeMatchIndex = range
+      ? this.findWidgetMatches.findIndex(
+          (match) =>
+            match.start.row === range.startRow &&
+            match.start.col === range.startCol &&
+            match.end.row === range.endRow &&
+            match.end.col === range.endCol
+        )
+      : -1;
+  }
+
+  // Helper function to get the find widget state of the step being recorded, which is the one of the last step as long as the find widget hasn't changed, so that the history doesn't hold a copy of every match for every step
+  private getFindWidgetStateOfStep(): IFindWidgetState {
+    const findWidgetStateKey = JSON.stringify([this.findWidgetMatchesKey, this.findWidget]);
+    if (findWidgetStateKey === this.findWidgetStateHistoryKey) {
+      return this.findWidgetStateHistory[this.findWidgetStateHistory.length - 1];
+    }
+    this.findWidgetStateHistoryKey = findWidgetStateKey;
+    return this.getFindWidgetState();
+  }
+
+  // Helper function to get the find widget state history with every distinct state only once, as the steps which don't change the find widget share their state
+  private getFindWidgetStateHistorySnapshot(): IFindWidgetStateHistorySnapshot {
+    const stateIndexByState = new Map<IFindWidgetState, number>();
+    const states: Array<IFindWidgetState> = [];
+    const stateIndices = this.findWidgetStateHistory.map((findWidgetState) => {
+      let stateIndex = stateIndexByState.get(findWidgetState);
+      if (stateIndex === undefined) {
+        stateIndex = states.length;
+        stateIndexByState.set(findWidgetState, stateIndex);
+        states.push(copyFindWidgetState(findWidgetState));
+      }
+      return stateIndex;
+    });
+    return { states, stateIndices };
+  }
+
+  // Helper function to highlight the first match at or after the start of the highlight (or the caret), like VS Code does while typing a query
+  private selectNearestFindMatch() {
+    this.updateFindWidgetMatches();
+    const range = this.getOrderedHighlightRange();
+    const searchFrom = range ? { row: range.startRow, col: range.startCol } : { row: this.caretRow, col: this.caretCol };
+    const nearestIndex = this.findWidgetMatches.findIndex((match) => !isPositionBefore(match.start, searchFrom));
+    this.selectFindMatch(nearestIndex === -1 ? 0 : nearestIndex);
+  }
+
+  // Helper function to get the index of the first match after the highlight (or the caret), wrapping around to the first match
+  private getNextFindMatchIndex(): number {
+    const range = this.getOrderedHighlightRange();
+    const searchFrom = range ? { row: range.endRow, col: range.endCol } : { row: this.caretRow, col: this.caretCol };
+    const nextIndex = this.findWidgetMatches.findIndex((match) => !isPositionBefore(match.start, searchFrom));
+    return nextIndex === -1 ? 0 : nextIndex;
+  }
+
+  // Helper function to get the index of the last match before the highlight (or the caret), wrapping around to the last match
+  private getPreviousFindMatchIndex(): number {
+    const range = this.getOrderedHighlightRange();
+    const searchFrom = range ? { row: range.startRow, col: range.startCol } : { row: this.caretRow, col: this.caretCol };
+    let previousIndex = this.findWidgetMatches.length - 1;
+    this.findWidgetMatches.forEach((match, index) => {
+      if (!isPositionBefore(searchFrom, match.end)) {
+        previousIndex = index;
+      }
+    });
+    return previousIndex;
+  }
+
+  // Helper function to make the match at the given index the active match, highlighting it with the caret at its end - a find match replaces every cursor
+  private selectFindMatch(index: number) {
+    const match = this.findWidgetMatches[index];
+    if (!match) {
+      return;
+    }
+    this.secondaryCursors = [];
+    this.highlightStartRow = match.start.row;
+    this.highlightStartCol = match.start.col;
+    this.caretRow = match.end.row;
+    this.caretCol = match.end.col;
+    this.currentlyHighlightedCode = this.calculateHighlightedText();
+    this.findWidget.activeMatchIndex = index;
+  }
+
+  // Helper function to get the text a match is replaced with - with a regular expression query, the replace text can refer to the groups of the match
+  private getFindReplaceText(match: IFindMatchWithCaptures): string {
+    return this.findWidget.isRegex
+      ? expandReplaceText(this.findWidget.replaceText, match.captures)
+      : this.findWidget.replaceText;
+  }
+
+  // Helper function to get the LOGICAL highlight range ordered from start to end, regardless of selection direction
+  private getOrderedHighlightRange(): { startRow: number; startCol: number; endRow: number; endCol: number } | null {
+    if (this.highlightStartRow === -1) {
+      return null;
+    }
+    const isForwardSelection =
+      this.highlightStartRow < this.caretRow ||
+      (this.highlightStartRow === this.caretRow &&
+        this.highlightStartCol <= this.caretCol);
+    return isForwardSelection
+      ? { startRow: this.highlightStartRow, startCol: this.highlightStartCol, endRow: this.caretRow, endCol: this.caretCol }
+      : { startRow: this.caretRow, startCol: this.caretCol, endRow: this.highlightStartRow, endCol: this.highlightStartCol };
+  }
+
+  // Helper function to get the rows touched by the caret or the highlight - like in VS Code, a highlight ending at the very start of a row doesn't touch that row
+  private getTouchedLineRange(): { startRow: number; endRow: number } {
+    const range = this.getOrderedHighlightRange();
+    if (!range) {
+      return { startRow: this.caretRow, endRow: this.caretRow };
+    }
+    if (range.endRow > range.startRow && range.endCol === 0) {
+      return { startRow: range.startRow, endRow: range.endRow - 1 };
+    }
+    return { startRow: range.startRow, endRow: range.endRow };
+  }
+
+  // Helper function to get the text inserted for one level of indentation
+  private getIndentUnit(): string {
+    return this.options.insertSpaces ? " ".repeat(this.options.tabSize) : "\t";
+  }
+
+  // Helper function to get the text inserted by a tab at the caret - with insertSpaces, just enough spaces to reach the next tab stop
+  private getTabTextAtCaret(): string {
+    if (!this.options.insertSpaces) {
+      return "\t";
+    }
+    const textBeforeCaret = this.buffer.getLine(this.caretRow).substring(0, this.caretCol);
+    let visibleCol = 0;
+    for (const character of textBeforeCaret) {
+      visibleCol = character === "\t"
+        ? visibleCol + this.options.tabSize - (visibleCol % this.options.tabSize)
+        : visibleCol + 1;
+    }
+    return " ".repeat(this.options.tabSize - (visibleCol % this.options.tabSize));
+  }
+
+  // Helper function to add one level of indentation to every touched line - like in VS Code, empty lines are left alone and a highlight starting at column 0 keeps starting there
+  private indentTouchedLines() {
+    const { startRow, endRow } = this.getTouchedLineRange();
+    const indentUnit = this.getIndentUnit();
+    for (let row = startRow; row <= endRow; row++) {
+      if (this.buffer.getLineLength(row) === 0) {
+        continue;
+      }
+      this.replaceRange(row, 0, row, 0, indentUnit);
+      if (this.caretRow === row && this.caretCol > 0) {
+        this.caretCol += indentUnit.length;
+      }
+      if (this.highlightStartRow === row && this.highlightStartCol > 0) {
+        this.highlightStartCol += indentUnit.length;
+      }
+    }
+  }
+
+  // Helper function to remove one level of indentation (a tab, or up to tabSize spaces) from every touched line
+  private outdentTouchedLines() {
+    const { startRow, endRow } = this.getTouchedLineRange();
+    const { tabSize } = this.options;
+    for (let row = startRow; row <= endRow; row++) {
+      // the visible columns after each character of the indentation, a tab going on to the next tab stop
+      const line = this.buffer.getLine(row);
+      const indentationColumns = [0];
+      for (let index = 0; line[index] === " " || line[index] === "\t"; index++) {
+        const column = indentationColumns[index];
+        indentationColumns.push(line[index] === "\t" ? column + tabSize - (column % tabSize) : column + 1);
+      }
+      const indentationLength = indentationColumns.length - 1;
+      if (indentationLength === 0) {
+        continue;
+      }
+
+      // like VS Code, the indentation is cut back from its end to the previous tab stop
+      const targetColumn = (Math.ceil(indentationColumns[indentationLength] / tabSize) - 1) * tabSize;
+      let keptLength = indentationLength;
+      while (indentationColumns[keptLength] > targetColumn) {
+        keptLength--;
+      }
+      this.replaceRange(row, keptLength, row, indentationLength, "");
+      const removedLength = indentationLength - keptLength;
+      if (this.caretRow === row) {
+        this.caretCol = this.caretCol >= indentationLength ? this.caretCol - removedLength : Math.min(this.caretCol, keptLength);
+      }
+      if (this.highlightStartRow === row) {
+        this.highlightStartCol =
+          this.highlightStartCol >= indentationLength ? this.highlightStartCol - removedLength : Math.min(this.highlightStartCol, keptLength);
+      }
+    }
+  }
+
+  // Helper function to delete the highlighted text, leaving the caret at the start of the former highlight
+  private deleteHighlightedText() {
+    const range = this.getOrderedHighlightRange();
+    if (!range) {
+      return;
+    }
+    this.replaceRange(range.startRow, range.startCol, range.endRow, range.endCol, "");
+    this.caretRow = range.startRow;
+    this.caretCol = range.startCol;
+    this.clearCurrentHighlightedCode();
+  }
+
+  // Helper function to put the highlighted text, or the whole current line if nothing is highlighted, on the clipboard
+  private copyToClipboard() {
+    if (this.highlightStartRow !== -1) {
+      this.clipboard.setText(this.calculateHighlightedText());
+    } else {
+      this.clipboard.setText(this.buffer.getLine(this.caretRow) + "\n", true);
+    }
+  }
+
+  // Helper function to capture the state that undo and redo restore
+  private getEditState(): IEditState {
+    return {
+      caretRow: this.caretRow,
+      caretCol: this.caretCol,
+      highlightStartRow: this.highlightStartRow,
+      highlightStartCol: this.highlightStartCol,
+      secondaryCursors: this.secondaryCursors.map((cursor) => ({ ...cursor })),
+    };
+  }
+
+  // Helper function to restore a state captured with getEditState
+  private setEditState(editState: IEditState) {
+    this.caretRow = editState.caretRow;
+    this.caretCol = editState.caretCol;
+    this.highlightStartRow = editState.highlightStartRow;
+    this.highlightStartCol = editState.highlightStartCol;
+    this.secondaryCursors = editState.secondaryCursors.map((cursor) => ({ ...cursor }));
+    this.currentlyHighlightedCode = this.calculateHighlightedText();
+  }
+
+  // Helper function to make the text edits of an edit group again, when redoing
+  private applyTextEdits(edits: Array<ITextEdit>) {
+    edits.forEach(({ row, col, removedText, insertedText }) => {
+      const removedEnd = getTextEndPosition(row, col, removedText);
+      const end = this.buffer.replace(row, col, removedEnd.row, removedEnd.col, insertedText);
+      this.markRowsChanged(row, removedEnd.row + 1, end.row + 1);
+    });
+  }
+
+  // Helper function to take back the text edits of an edit group, the last one first, when undoing
+  private revertTextEdits(edits: Array<ITextEdit>) {
+    for (let i = edits.length - 1; i >= 0; i--) {
+      const { row, col, removedText, insertedText } = edits[i];
+      const insertedEnd = getTextEndPosition(row, col, insertedText);
+      const end = this.buffer.replace(row, col, insertedEnd.row, insertedEnd.col, removedText);
+      this.markRowsChanged(row, insertedEnd.row + 1, end.row + 1);
+    }
+  }
+
+  // Helper function to get the text between two LOGICAL positions, with lines separated by '\n'
+  private getTextBetween(startRow: number, startCol: number, endRow: number, endCol: number): string {
+    if (startRow === endRow) {
+      return this.buffer.getLine(startRow).substring(startCol, endCol);
+    }
+    const lines = [this.buffer.getLine(startRow).substring(startCol)];
+    for (let row = startRow + 1; row < endRow; row++) {
+      lines.push(this.buffer.getLine(row));
+    }
+    lines.push(this.buffer.getLine(endRow).substring(0, endCol));
+    return lines.join("\n");
+  }
+
+  // Helper function to replace the whole buffer, e.g. when setting the values from an editor object
+  private setBuffer(buffer: ITextBuffer) {
+    this.markRowsChanged(0, this.buffer.getLineCount(), buffer.getLineCount());
+    this.buffer = buffer;
+  }
+
+  // Helper function to remember which rows changed for the code lines history: the rows from startRow up to endRow were replaced by the rows up to newEndRow
+  private markRowsChanged(startRow: number, endRow: number, newEndRow: number) {
+    if (!this.changedRows) {
+      this.changedRows = { startRow, endRow: newEndRow, previousEndRow: endRow };
+      return;
+    }
+    // merged with the rows changed before, the rows below them are still the rows of the last step
+    const unionEndRow = Math.max(this.changedRows.endRow, endRow);
+    this.changedRows = {
+      startRow: Math.min(this.changedRows.startRow, startRow),
+      endRow: unionEndRow + newEndRow - endRow,
+      previousEndRow: this.changedRows.previousEndRow + unionEndRow - this.changedRows.endRow,
+    };
+  }
+
+  // Helper function to make the current state the first step of every history, for a virtual editor restored or copied without its histories
+  private startHistoriesAtCurrentStep(codeLines: Array<string>) {
+    const code = codeLines.join("\n");
+    this.actionsApplied = [{ name: "editor-type", value: code }];
+    this.editorActionsApplied = [{ name: "editor-type", value: code }];
+    this.codeLinesHistory = new CodeLinesHistory();
+    this.codeLinesHistory.push(codeLines);
+    this.caretPositionHistory = [{ row: this.caretRow, col: this.caretCol }];
+    this.highlightStartPositionHistory = [{ row: this.highlightStartRow, col: this.highlightStartCol }];
+    this.highlightHistory = [[this.currentlyHighlightedCode]];
+    this.findWidgetStateHistory = [this.getFindWidgetState()];
+    this.findWidgetStateHistoryKey = "";
+    this.isSavedHistory = [this.isSaved];
+    this.isEditorContextMenuOpenHistory = [this.isEditorContextMenuOpen];
+    this.secondaryCursorsHistory = [this.secondaryCursors.map((cursor) => ({ ...cursor }))];
+  }
+
+  // Helper function to get the lines from startRow up to (excluding) endRow
+  private getLinesBetween(startRow: number, endRow: number): Array<string> {
+    return Array.from({ length: endRow - startRow }, (_, index) => this.buffer.getLine(startRow + index));
+  }
+
+  // Helper function to push (or extend) an edit group on the undo stack after an action has been applied
+  private recordEditGroup(action: IVirtualEditorAction, editStateBefore: IEditState, versionIdBefore: number) {
+    // actions that don't change the code (navigation, save, etc.) close the current edit group
+    if (this.buffer.getVersionId() === versionIdBefore) {
+      this.isLastEditGroupOpen = false;
+      return;
+    }
+
+    let kind: EditGroupKind = "other";
+    if (action.name === "editor-type" || action.name === "editor-space") {
+      kind = "typing";
+    } else if (action.name === "editor-backspace") {
+      kind = "deleting";
+    }
+
+    // any new edit invalidates what could have been redone
+    this.redoStack = [];
+
+    const lastEditGroup = this.undoStack[this.undoStack.length - 1];
+    if (this.isLastEditGroupOpen && lastEditGroup && lastEditGroup.kind === kind) {
+      const openEditGroup = this.isLastEditGroupShared ? copyEditGroup(lastEditGroup) : lastEditGroup;
+      openEditGroup.edits.push(...this.textEdits);
+      openEditGroup.after = this.getEditState();
+      this.undoStack[this.undoStack.length - 1] = openEditGroup;
+    } else {
+      this.undoStack.push({
+        kind,
+        edits: this.textEdits,
+        before: editStateBefore,
+        after: this.getEditState(),
+      });
+    }
+
+    // only typing and deleting are merged, everything else is its own group
+    this.isLastEditGroupOpen = kind !== "other";
+    this.isLastEditGroupShared = false;
+  }
+
+  // Helper function to report a problem with an action - a strict virtual editor throws it, a linting one collects it
+  private reportValidationIssue(kind: ValidationIssueKind, action: IVirtualEditorAction, message: string, effectiveRepeatCount?: number) {
+    const issue: IVirtualEditorValidationIssue = {
+      kind,
+      message: `codevideo-virtual-editor: ${message}`,
+      actionIndex: this.actionsApplied.length,
+      action: { ...action },
+      state: this.getCurrentState(),
+    };
+    if (effectiveRepeatCount !== undefined) {
+      issue.effectiveRepeatCount = effectiveRepeatCount;
+    }
+    if (this.options.validation === "strict") {
+      throw new VirtualEditorValidationError(issue);
+    }
+    this.validationIssues.push(issue);
+  }
+
+  // Helper function to report the problems with an action that show before it is applied, returning if there were any
+  private validateActionBeforeApplying(action: IVirtualEditorAction, numTimes: number): boolean {
+    if (!VirtualEditor.supportedActions.includes(action.name)) {
+      this.reportValidationIssue("unrecognized-action", action, `Action ${action.name} not recognized.`);
+      return true;
+    }
+    if (
+      isRepeatableVirtualEditorAction(action) &&
+      !ActionNamesIgnoringRepeatCount.includes(action.name) &&
+      (!/^\s*\d+\s*$/.test(action.value) || numTimes < 1)
+    ) {
+      this.reportValidationIssue(
+        "invalid-repeat-count",
+        action,
+        `${action.name} value '${action.value}' is not a positive whole number of repeats.`
+      );
+      return true;
+    }
+    const effectiveRepeats = this.countEffectiveRepeats(action, numTimes);
+    if (effectiveRepeats !== null && effectiveRepeats < numTimes) {
+      this.reportValidationIssue(
+        "out-of-range-movement",
+        action,
+        `${action.name} is repeated ${numTimes} times, but only ${effectiveRepeats} of them have an effect from row ${this.caretRow + 1}, column ${this.caretCol + 1}.`,
+        effectiveRepeats
+      );
+      return true;
+    }
+    return false;
+  }
+
+  // Helper function to count how many repeats of a movement, backspace, undo or redo have an effect, following the same rules as applyActionAtCaret - null for the actions that aren't counted
+  private countEffectiveRepeats(action: IVirtualEditorAction, numTimes: number): number | null {
+    // with multiple cursors every cursor counts, and movements without shift clear a highlight even if the caret can't move
+    const hasHighlight = this.highlightStartRow !== -1;
+    if (this.secondaryCursors.length > 0 || this.caretRow >= this.buffer.getLineCount()) {
+      return null;
+    }
+    const lastRow = this.buffer.getLineCount() - 1;
+    switch (action.name) {
+      case "editor-arrow-up":
+      case "editor-shift+arrow-up":
+        return hasHighlight && action.name === "editor-arrow-up" ? null : Math.min(numTimes, this.caretRow);
+      case "editor-arrow-down":
+      case "editor-shift+arrow-down":
+        return hasHighlight && action.name === "editor-arrow-down" ? null : Math.min(numTimes, lastRow - this.caretRow);
+      case "editor-arrow-left":
+      case "editor-shift+arrow-left":
+      case "editor-arrow-right":
+      case "editor-shift+arrow-right": {
+        if (hasHighlight && (action.name === "editor-arrow-left" || action.name === "editor-arrow-right")) {
+          return null;
+        }
+        // the caret moves until it reaches the start (or the end) of the code
+        const isLeft = action.name === "editor-arrow-left" || action.name === "editor-shift+arrow-left";
+        const caretLineLength = this.buffer.getLineLength(this.caretRow);
+        let row = this.caretRow;
+        let col = this.caretCol;
+        for (let i = 0; i < numTimes; i++) {
+          if (isLeft && col > 0) {
+            col--;
+          } else if (isLeft && row > 0) {
+            row--;
+            col = this.buffer.getLineLength(row);
+          } else if (!isLeft && col < (action.name === "editor-arrow-right" ? caretLineLength : this.buffer.getLineLength(row))) {
+            col++;
+          } else if (!isLeft && row < lastRow) {
+            row++;
+            col = 0;
+          } else {
+            return i;
+          }
+        }
+        return numTimes;
+      }
+      case "editor-command-left":
+        return hasHighlight ? null : Math.min(numTimes, this.caretCol > 0 ? 1 : 0);
+      case "editor-command-right":
+        return hasHighlight ? null : Math.min(numTimes, this.caretCol < this.buffer.getLineLength(this.caretRow) ? 1 : 0);
+      case "editor-backspace":
+        return hasHighlight ? null : Math.min(numTimes, this.buffer.getOffsetAt(this.caretRow, this.caretCol));
+      case "editor-undo":
+        return Math.min(numTimes, this.undoStack.length);
+      case "editor-redo":
+        return Math.min(numTimes, this.redoStack.length);
+      default:
+        return null;
+    }
+  }
+
+  // Helper function to describe everything an action can change, to find actions that changed nothing
+  private getObservableState(): string {
+    // the desired column is left out, as it only shows once the caret moves vertically
+    const cursors = [this.getActiveCursor(), ...this.secondaryCursors].map(({ desiredCol, ...cursor }) => cursor);
+    return JSON.stringify([
+      this.buffer.getVersionId(),
+      cursors,
+      this.isSaved,
+      this.isEditorContextMenuOpen,
+      this.findWidget,
+      this.clipboard.getText(),
+      this.clipboard.getIsWholeLine(),
+    ]);
+  }
+
+  // Helper function to get the PHYSICAL state of the virtual editor, as it is recorded after every step
+  private getCurrentState(): IVirtualEditorState {
+    const primaryCursor = toPhysicalCursor(this.getActiveCursor());
+    return {
+      action: this.actionsApplied[this.actionsApplied.length - 1],
+      code: this.getCode(),
+      caretPosition: primaryCursor.caretPosition,
+      highlightCoordinates: primaryCursor.highlightCoordinates,
+      highlightedCode: this.currentlyHighlightedCode,
+      isSaved: this.isSaved,
+      isEditorContextMenuOpen: this.isEditorContextMenuOpen,
+      cursors: [primaryCursor, ...this.secondaryCursors.map(toPhysicalCursor)],
+      findWidget: this.getFindWidgetState(),
+    };
+  }
+
   // Helper function to calculate highlighted text
   private calculateHighlightedText(): string {
     if (this.highlightStartRow === -1) return "";
@@ -772,7 +2753,7 @@ export class VirtualEditor {
       // Single line highlight
       const start = Math.min(this.highlightStartCol, this.caretCol);
       const end = Math.max(this.highlightStartCol, this.caretCol);
-      return this.codeLines[this.caretRow].substring(start, end);
+      return this.buffer.getLine(this.caretRow).substring(start, end);
     }
 
     // Multi-line highlight
@@ -785,14 +2766,14 @@ export class VirtualEditor {
       if (row === startRow) {
         // First line - take from selection start to end of line
         const startCol = isForwardSelection ? this.highlightStartCol : this.caretCol;
-        highlightedLines.push(this.codeLines[row].substring(startCol));
+        highlightedLines.push(this.buffer.getLine(row).substring(startCol));
       } else if (row === endRow) {
         // Last line - take from start of line to selection end
         const endCol = isForwardSelection ? this.caretCol : this.highlightStartCol;
-        highlightedLines.push(this.codeLines[row].substring(0, endCol));
+        highlightedLines.push(this.buffer.getLine(row).substring(0, endCol));
       } else {
         // Middle lines - take entire line
-        highlightedLines.push(this.codeLines[row]);
+        highlightedLines.push(this.buffer.getLine(row));
       }
     }
     return highlightedLines.join('\n');
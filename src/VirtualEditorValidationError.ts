@@ -0,0 +1,39 @@
+import { IVirtualEditorAction } from "./types/ExtendedEditorActions";
+import { IVirtualEditorState } from "./types/IVirtualEditorState";
+import { IVirtualEditorValidationIssue, ValidationIssueKind } from "./types/IVirtualEditorValidationIssue";
+
+/**
+ * The error thrown by a virtual editor whose validation option is `strict`, when an action can't be applied (fully). The action is not applied.
+ */
+export class VirtualEditorValidationError extends Error {
+  /**
+   * The kind of problem with the action.
+   */
+  readonly kind: ValidationIssueKind;
+
+  /**
+   * The index the action would have had in getActionsApplied.
+   */
+  readonly actionIndex: number;
+
+  /**
+   * The action which can't be applied.
+   */
+  readonly action: IVirtualEditorAction;
+
+  /**
+   * The PHYSICAL state of the virtual editor, which the action was not applied to.
+   */
+  readonly state: IVirtualEditorState;
+
+  constructor(issue: IVirtualEditorValidationIssue) {
+    super(issue.message);
+    // keeps instanceof working when the class is compiled to ES5
+    Object.setPrototypeOf(this, VirtualEditorValidationError.prototype);
+    this.name = "VirtualEditorValidationError";
+    this.kind = issue.kind;
+    this.actionIndex = issue.actionIndex;
+    this.action = issue.action;
+    this.state = issue.state;
+  }
+}
@@ -1 +1,53 @@
-export { VirtualEditor } from './VirtualEditor';
\ No newline at end of file
+export { VirtualEditor } from './VirtualEditor';
+export { VirtualClipboard } from './VirtualClipboard';
+export { VirtualEditorValidationError } from './VirtualEditorValidationError';
+export type { ExtendedEditorActions, IVirtualEditorAction } from './types/ExtendedEditorActions';
+export type { IVirtualEditorCursor } from './types/IVirtualEditorCursor';
+export type { IVirtualEditorState } from './types/IVirtualEditorState';
+export type { IFindMatch, IFindWidgetState } from './types/IFindWidgetState';
+export type { IVirtualEditorValidationIssue, ValidationIssueKind } from './types/IVirtualEditorValidationIssue';
+export type {
+  EditGroupKind,
+  ICodeLinesDelta,
+  ICodeLinesHistorySnapshot,
+  ICursorState,
+  IEditGroup,
+  IEditState,
+  IFindWidgetStateHistorySnapshot,
+  ITextEdit,
+  IVirtualEditorSnapshot,
+  IVirtualEditorSnapshotHistory,
+} from './types/IVirtualEditorSnapshot';
+export { ExtendedRepeatableActionNames } from './types/ExtendedEditorActions';
+export { isRepeatableVirtualEditorAction } from './utils/isRepeatableVirtualEditorAction';
+export { DefaultWordSeparators } from './utils/getWordCharacterClass';
+export type {
+  AutoClosingBrackets,
+  AutoClosingDelete,
+  AutoClosingOvertype,
+  AutoClosingQuotes,
+  AutoIndent,
+  AutoSurround,
+  EndOfLine,
+  IVirtualEditorOptions,
+  ValidationMode,
+} from './types/IVirtualEditorOptions';
+export { DefaultIncreaseIndentAfter, DefaultVirtualEditorOptions, IncreaseIndentAfterByLanguage } from './types/IVirtualEditorOptions';
+export { optimizeActions } from './utils/optimizeActions';
+export type { ActionScriptDiagnosticKind, IActionScriptAnalysis, IActionScriptDiagnostic } from './types/IActionScriptAnalysis';
+export { generateActions } from './utils/generateActions';
+export type { CodeDiffChangeKind, ICodeDiff, ICodeDiffChange, ICodeDiffRange } from './types/ICodeDiff';
+export { getNarrationTimeline } from './utils/getNarrationTimeline';
+export type { IActionIndexRange, INarrationSegment } from './types/INarrationSegment';
+export { getActionTimings } from './utils/getActionTimings';
+export { exportSrtCaptions, exportWebVttCaptions, getSpeechCaptionCues } from './utils/exportCaptions';
+export type { IActionTiming, IActionTimingOptions, ISpeechCaptionCue } from './types/IActionTiming';
+export { DefaultActionTimingOptions } from './types/IActionTiming';
+export { getKeystrokeFrames } from './utils/getKeystrokeFrames';
+export type { IKeystrokeFrame } from './types/IKeystrokeFrame';
+export { humanizeTyping } from './utils/humanizeTyping';
+export type { IHumanizedTyping, IHumanizedTypingOptions, IHumanizedTypingPace } from './types/IHumanizedTyping';
+export { DefaultHumanizedTypingOptions } from './types/IHumanizedTyping';
+export { exportAsciinemaCast } from './utils/exportAsciinemaCast';
+export type { IAsciinemaCastOptions } from './types/IAsciinemaCastOptions';
+export { DefaultAsciinemaCastOptions } from './types/IAsciinemaCastOptions';
@@ -0,0 +1,76 @@
+import { AllActions } from "@fullstackcraftllc/codevideo-types";
+
+/**
+ * Editor actions which are supported by the virtual editor but are not (yet) part of EditorActions in codevideo-types.
+ */
+export type ExtendedEditorActions =
+  | "editor-undo"
+  | "editor-redo"
+  | "editor-copy"
+  | "editor-cut"
+  | "editor-paste"
+  | "editor-option-arrow-left"
+  | "editor-option-arrow-right"
+  | "editor-shift+option-arrow-left"
+  | "editor-shift+option-arrow-right"
+  | "editor-option-backspace"
+  | "editor-command-backspace"
+  | "editor-move-line-up"
+  | "editor-move-line-down"
+  | "editor-copy-line-up"
+  | "editor-copy-line-down"
+  | "editor-shift+tab"
+  | "editor-add-cursor-above"
+  | "editor-add-cursor-below"
+  | "editor-add-next-occurrence"
+  | "editor-escape"
+  | "editor-find"
+  | "editor-find-next"
+  | "editor-find-previous"
+  | "editor-replace"
+  | "editor-replace-all"
+  | "editor-toggle-find-regex"
+  | "editor-toggle-find-case-sensitive"
+  | "editor-toggle-find-whole-word"
+  | "editor-close-find"
+  | "editor-goto-line"
+  | "editor-goto-text"
+  | "editor-select-text";
+
+/**
+ * The extended editor actions whose value is the number of times to repeat the action.
+ */
+export const ExtendedRepeatableActionNames: Array<ExtendedEditorActions> = [
+  "editor-undo",
+  "editor-redo",
+  "editor-paste",
+  "editor-option-arrow-left",
+  "editor-option-arrow-right",
+  "editor-shift+option-arrow-left",
+  "editor-shift+option-arrow-right",
+  "editor-option-backspace",
+  "editor-command-backspace",
+  "editor-move-line-up",
+  "editor-move-line-down",
+  "editor-copy-line-up",
+  "editor-copy-line-down",
+  "editor-shift+tab",
+  "editor-add-cursor-above",
+  "editor-add-cursor-below",
+  "editor-add-next-occurrence",
+  "editor-find-next",
+  "editor-find-previous",
+];
+
+/**
+ * An action that can be applied to the virtual editor - either any action from codevideo-types or one of the ExtendedEditorActions.
+ */
+export interface IVirtualEditorAction {
+  name: AllActions | ExtendedEditorActions;
+  value: string;
+}
+
+/**
+ * The repeatable actions which the virtual editor applies once whatever their value, so their value is not a repeat count.
+ */
+export const ActionNamesIgnoringRepeatCount: Array<IVirtualEditorAction["name"]> = ["editor-save", "editor-command-c"];
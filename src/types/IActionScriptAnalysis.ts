@@ -0,0 +1,52 @@
+import { IActionValidationError } from "@fullstackcraftllc/codevideo-types";
+import { IVirtualEditorAction } from "./ExtendedEditorActions";
+import { ValidationIssueKind } from "./IVirtualEditorValidationIssue";
+
+/**
+ * The kinds of diagnostics found by optimizeActions. Besides the kinds of the validation issues, which are reported as they are, the optimizer reports what it changed:
+ * - `dropped-move`: a movement which has no effect is removed
+ * - `trimmed-move`: a movement repeated more often than it has an effect is repeated less often
+ * - `merged-moves`: consecutive identical movements are merged into a single action
+ * - `cancelled-moves`: opposing arrow movements are replaced by the movement that remains, if any
+ * - `erased-typing`: an editor-type followed by an editor-backspace erasing (some of) it is replaced by what remains
+ */
+export type ActionScriptDiagnosticKind =
+  | ValidationIssueKind
+  | "dropped-move"
+  | "trimmed-move"
+  | "merged-moves"
+  | "cancelled-moves"
+  | "erased-typing";
+
+/**
+ * A diagnostic of an action script. Unlike the validation issues of a virtual editor, the actionIndex is the index of the action in the script itself.
+ */
+export interface IActionScriptDiagnostic extends IActionValidationError {
+  kind: ActionScriptDiagnosticKind;
+
+  /**
+   * The index of the last action of the script the diagnostic covers, the same as actionIndex for a single action.
+   */
+  endActionIndex: number;
+
+  /**
+   * The actions replacing the covered actions in the optimized script (empty when they are removed) - undefined for diagnostics which don't change the script. The actions covered by different replacements never overlap.
+   */
+  replacement?: Array<IVirtualEditorAction>;
+}
+
+/**
+ * The result of optimizeActions.
+ */
+export interface IActionScriptAnalysis {
+  /**
+   * The optimized script.
+   */
+  actions: Array<IVirtualEditorAction>;
+
+  /**
+   * For every action of the optimized script, the index of the action of the original script it ends on - the original step which has the same code, caret and highlight.
+   */
+  originalActionIndices: Array<number>;
+  diagnostics: Array<IActionScriptDiagnostic>;
+}
@@ -0,0 +1,42 @@
+import { ISpeechCaption } from "@fullstackcraftllc/codevideo-types";
+
+/**
+ * The pace at which the actions of a lesson are played back.
+ */
+export interface IActionTimingOptions {
+  /**
+   * How fast the author speaks.
+   */
+  wordsPerMinute: number;
+
+  /**
+   * How long each keystroke of an editor action takes - every character typed, and every press of a repeated action like `editor-arrow-down` with a value of 3.
+   */
+  millisecondsPerKeystroke: number;
+}
+
+/**
+ * The default pace of a lesson: a calm speaking rate, and typing at about 10 characters a second.
+ */
+export const DefaultActionTimingOptions: IActionTimingOptions = {
+  wordsPerMinute: 150,
+  millisecondsPerKeystroke: 100,
+};
+
+/**
+ * When an action is played back, in milliseconds from the start of the lesson.
+ */
+export interface IActionTiming {
+  actionIndex: number;
+  startMilliseconds: number;
+  endMilliseconds: number;
+}
+
+/**
+ * A speech caption along with the action it comes from and when it is spoken, in milliseconds from the start of the lesson.
+ */
+export interface ISpeechCaptionCue extends ISpeechCaption {
+  actionIndex: number;
+  startMilliseconds: number;
+  endMilliseconds: number;
+}
@@ -0,0 +1,30 @@
+import { DefaultActionTimingOptions, IActionTimingOptions } from "./IActionTiming";
+
+/**
+ * The settings of an asciinema cast of a virtual editor, along with the pace its steps are played back at.
+ */
+export interface IAsciinemaCastOptions extends IActionTimingOptions {
+  /**
+   * The number of columns of the terminal, line numbers included - longer lines are cut off.
+   */
+  width: number;
+
+  /**
+   * The number of rows of the terminal - longer code scrolls along with the caret.
+   */
+  height: number;
+
+  /**
+   * The title of the cast, shown by the asciinema player.
+   */
+  title?: string;
+}
+
+/**
+ * The default asciinema cast: a standard 80 by 24 terminal, at the default pace of a lesson.
+ */
+export const DefaultAsciinemaCastOptions: IAsciinemaCastOptions = {
+  ...DefaultActionTimingOptions,
+  width: 80,
+  height: 24,
+};
@@ -0,0 +1,57 @@
+import { IEditorPosition } from "@fullstackcraftllc/codevideo-types";
+
+/**
+ * The kinds of changes between two versions of the code: lines which are only inserted, lines which are only deleted, and lines which are modified (or replaced by other lines).
+ */
+export type CodeDiffChangeKind = "inserted" | "deleted" | "modified";
+
+/**
+ * A range of characters with PHYSICAL positions, (1, 1) being the top left of the editor. Like a highlight, the end is the position right after the last character.
+ */
+export interface ICodeDiffRange {
+  start: IEditorPosition;
+  end: IEditorPosition;
+}
+
+/**
+ * A single change between two versions of the code, with PHYSICAL rows and positions, (1, 1) being the top left of the editor.
+ */
+export interface ICodeDiffChange {
+  kind: CodeDiffChangeKind;
+
+  /**
+   * The first row of the changed lines in the old code - for inserted lines, the row they are inserted before.
+   */
+  oldStartRow: number;
+  oldLineCount: number;
+
+  /**
+   * The first row of the changed lines in the new code - for deleted lines, the row which followed them.
+   */
+  newStartRow: number;
+  newLineCount: number;
+  oldLines: Array<string>;
+  newLines: Array<string>;
+
+  /**
+   * The characters deleted from the old code, null if none were deleted.
+   */
+  deletedRange: ICodeDiffRange | null;
+
+  /**
+   * The characters inserted in the new code, null if none were inserted.
+   */
+  insertedRange: ICodeDiffRange | null;
+}
+
+/**
+ * The differences between two versions of the code.
+ */
+export interface ICodeDiff {
+  changes: Array<ICodeDiffChange>;
+
+  /**
+   * The differences in the unified diff format, with 3 lines of context - an empty string if the code is the same.
+   */
+  unifiedDiff: string;
+}
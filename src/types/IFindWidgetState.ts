@@ -0,0 +1,54 @@
+import { IEditorPosition } from "@fullstackcraftllc/codevideo-types";
+
+/**
+ * A single match of the find widget, from its start to its end.
+ */
+export interface IFindMatch {
+  start: IEditorPosition;
+  end: IEditorPosition;
+}
+
+/**
+ * The state of the find widget of the virtual editor, like the find widget of VS Code.
+ */
+export interface IFindWidgetState {
+  /**
+   * Whether the find widget is shown.
+   */
+  isOpen: boolean;
+
+  /**
+   * The text (or regular expression) that is searched for.
+   */
+  query: string;
+
+  /**
+   * The text the matches are replaced with by the last replace action.
+   */
+  replaceText: string;
+
+  /**
+   * Whether the query is a regular expression - the replace text may then refer to groups with $1, $2, etc.
+   */
+  isRegex: boolean;
+
+  /**
+   * Whether the case of the query has to match.
+   */
+  isCaseSensitive: boolean;
+
+  /**
+   * Whether matches have to be whole words.
+   */
+  isWholeWord: boolean;
+
+  /**
+   * Every match of the query, in document order.
+   */
+  matches: Array<IFindMatch>;
+
+  /**
+   * The index of the match which is currently highlighted. -1 represents no active match.
+   */
+  activeMatchIndex: number;
+}
@@ -0,0 +1,72 @@
+import { IAction } from "@fullstackcraftllc/codevideo-types";
+import { DefaultActionTimingOptions } from "./IActionTiming";
+
+/**
+ * How humanized typing varies from typing at a steady pace.
+ */
+export interface IHumanizedTypingOptions {
+  /**
+   * The seed of the random choices - the same text, options and seed always give the same actions.
+   */
+  seed: number;
+
+  /**
+   * The average time a keystroke takes.
+   */
+  millisecondsPerKeystroke: number;
+
+  /**
+   * How much the pace of each action differs from the average, as a fraction of it - 0.4 types between 60% and 140% of millisecondsPerKeystroke.
+   */
+  paceVariation: number;
+
+  /**
+   * The chance of hitting a key next to the right one, for each letter or digit.
+   */
+  typoProbability: number;
+
+  /**
+   * The average pause after punctuation and at the end of a line.
+   */
+  punctuationPauseMilliseconds: number;
+
+  /**
+   * The average pause before a typo is corrected.
+   */
+  correctionPauseMilliseconds: number;
+}
+
+/**
+ * The default humanized typing: typos in about one of every 30 letters, and a short pause at the end of each sentence, statement or line.
+ */
+export const DefaultHumanizedTypingOptions: IHumanizedTypingOptions = {
+  seed: 1,
+  millisecondsPerKeystroke: DefaultActionTimingOptions.millisecondsPerKeystroke,
+  paceVariation: 0.4,
+  typoProbability: 0.03,
+  punctuationPauseMilliseconds: 400,
+  correctionPauseMilliseconds: 300,
+};
+
+/**
+ * The pace of a humanized typing action.
+ */
+export interface IHumanizedTypingPace {
+  /**
+   * The pause before the action.
+   */
+  pauseMillisecondsBefore: number;
+
+  /**
+   * The time each keystroke of the action takes.
+   */
+  millisecondsPerKeystroke: number;
+}
+
+/**
+ * Humanized typing of a text: the actions typing it, with the pace of each action at the same index.
+ */
+export interface IHumanizedTyping {
+  actions: Array<IAction>;
+  pace: Array<IHumanizedTypingPace>;
+}
@@ -0,0 +1,22 @@
+import { IVirtualEditorState } from "./IVirtualEditorState";
+
+/**
+ * The state of the virtual editor after a single keystroke of an action, like a character of an `editor-type` action or a repeat of an `editor-arrow-right` action.
+ */
+export interface IKeystrokeFrame {
+  /**
+   * The index of the action the keystroke belongs to - -1 for the frame of the initial code.
+   */
+  actionIndex: number;
+
+  /**
+   * The number of keystrokes of the action applied in this frame, from 1 to keystrokeCount, or 0 for an action without keystrokes.
+   */
+  keystroke: number;
+  keystrokeCount: number;
+
+  /**
+   * The state of the virtual editor after the keystroke. Its action is the part of the action applied so far, so the last frame of an action holds the action itself.
+   */
+  state: IVirtualEditorState;
+}
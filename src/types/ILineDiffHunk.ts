@@ -0,0 +1,9 @@
+/**
+ * A range of lines which differs between two versions of the code: the old lines from oldStart are replaced by the new lines from newStart. Rows are LOGICAL (0) referenced, and either count can be 0 for lines which are only inserted or deleted.
+ */
+export interface ILineDiffHunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+}
@@ -0,0 +1,39 @@
+import { ISpeechCaption } from "@fullstackcraftllc/codevideo-types";
+
+/**
+ * A range of action indices, from startIndex to endIndex inclusive.
+ */
+export interface IActionIndexRange {
+  startIndex: number;
+  endIndex: number;
+}
+
+/**
+ * A segment of a narrated lesson: a run of actions together with the author speech actions which introduce it and follow it.
+ */
+export interface INarrationSegment {
+  /**
+   * The captions of the author speech actions of the segment, in the order they are spoken.
+   */
+  speechCaptions: Array<ISpeechCaption>;
+
+  /**
+   * The indices of all the actions of the segment, speech included. The segments cover every action, one after another.
+   */
+  actionRange: IActionIndexRange;
+
+  /**
+   * The indices of the first and last editor actions of the segment, null if the segment has none.
+   */
+  editorActionRange: IActionIndexRange | null;
+
+  /**
+   * The code before the first editor action of the segment.
+   */
+  codeBefore: string;
+
+  /**
+   * The code after the last editor action of the segment, the same as codeBefore if the segment has none.
+   */
+  codeAfter: string;
+}
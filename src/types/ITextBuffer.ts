@@ -0,0 +1,56 @@
+import { IEditorPosition } from "@fullstackcraftllc/codevideo-types";
+
+/**
+ * The text of a virtual editor. All positions are LOGICAL (0,0) referenced, and lines are always separated by '\n' - whatever line endings the inserted text uses.
+ */
+export interface ITextBuffer {
+  /**
+   * Returns the number of lines, which is always at least 1.
+   */
+  getLineCount(): number;
+
+  /**
+   * Returns the text of a line, without its line ending.
+   */
+  getLine(row: number): string;
+
+  /**
+   * Returns the length of a line, without its line ending.
+   */
+  getLineLength(row: number): number;
+
+  /**
+   * Returns a copy of every line.
+   */
+  getLines(): Array<string>;
+
+  /**
+   * Returns the whole text, with lines separated by the given end of line (defaults to '\n').
+   */
+  getText(endOfLine?: string): string;
+
+  /**
+   * Returns the offset of a position in the text with lines separated by '\n'.
+   */
+  getOffsetAt(row: number, col: number): number;
+
+  /**
+   * Returns the position of an offset in the text with lines separated by '\n'.
+   */
+  getPositionAt(offset: number): IEditorPosition;
+
+  /**
+   * Replaces the text between two positions, returning the position at the end of the inserted text.
+   */
+  replace(startRow: number, startCol: number, endRow: number, endCol: number, text: string): IEditorPosition;
+
+  /**
+   * Returns an id which changes whenever the text changes - two buffers with the same version id hold the same text.
+   */
+  getVersionId(): number;
+
+  /**
+   * Returns a copy of the buffer, which can be changed without changing this buffer.
+   */
+  clone(): ITextBuffer;
+}
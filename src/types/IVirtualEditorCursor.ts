@@ -0,0 +1,9 @@
+import { IEditorPosition } from "@fullstackcraftllc/codevideo-types";
+
+/**
+ * One of the cursors of the virtual editor, with PHYSICAL positions, (1, 1) being the top left of the editor.
+ */
+export interface IVirtualEditorCursor {
+  caretPosition: IEditorPosition;
+  highlightCoordinates: { start: IEditorPosition; end: IEditorPosition } | null;
+}
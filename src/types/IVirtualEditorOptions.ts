@@ -0,0 +1,156 @@
+import { ProgrammingLanguages } from "@fullstackcraftllc/codevideo-types";
+import { DefaultWordSeparators } from "../utils/getWordCharacterClass";
+
+/**
+ * The line endings used when the code of the virtual editor is returned as a single string.
+ */
+export type EndOfLine = "LF" | "CRLF";
+
+/**
+ * When typing an opening bracket inserts the matching closing bracket, like VS Code's `editor.autoClosingBrackets` setting.
+ */
+export type AutoClosingBrackets = "always" | "beforeWhitespace" | "never";
+
+/**
+ * When typing an opening quote inserts the closing quote, like VS Code's `editor.autoClosingQuotes` setting.
+ */
+export type AutoClosingQuotes = "always" | "beforeWhitespace" | "never";
+
+/**
+ * When typing a closing bracket or quote types over the one right after the caret, like VS Code's `editor.autoClosingOvertype` setting.
+ * - `auto`: only if the closing character was inserted automatically
+ */
+export type AutoClosingOvertype = "always" | "auto" | "never";
+
+/**
+ * When a backspace between an empty pair of brackets or quotes deletes both, like VS Code's `editor.autoClosingDelete` setting.
+ * - `auto`: only if the closing character was inserted automatically
+ */
+export type AutoClosingDelete = "always" | "auto" | "never";
+
+/**
+ * Which opening characters wrap the highlighted text instead of replacing it when typed, like VS Code's `editor.autoSurround` setting.
+ */
+export type AutoSurround = "always" | "brackets" | "quotes" | "never";
+
+/**
+ * How the indentation of a new line is determined when pressing enter, like VS Code's `editor.autoIndent` setting.
+ * - `none`: new lines start at column 0
+ * - `keep`: new lines keep the indentation of the line enter was pressed on
+ * - `brackets`: like `keep`, but new lines are indented one level deeper after an opening bracket, and enter between a pair of brackets moves the closing bracket onto its own line
+ */
+export type AutoIndent = "none" | "keep" | "brackets";
+
+/**
+ * How the actions applied to a virtual editor are validated.
+ * - `off`: actions which can't be applied (fully) are skipped silently, or with a warning if verbose is on
+ * - `lint`: every problem is collected as a validation issue, see getValidationIssues
+ * - `strict`: the first problem throws a VirtualEditorValidationError instead of applying the action
+ */
+export type ValidationMode = "off" | "lint" | "strict";
+
+/**
+ * The characters after which the `brackets` autoIndent mode indents one level deeper, if nothing else is configured.
+ */
+export const DefaultIncreaseIndentAfter: Array<string> = ["{", "(", "["];
+
+/**
+ * The characters after which the `brackets` autoIndent mode indents one level deeper, for languages which differ from DefaultIncreaseIndentAfter.
+ */
+export const IncreaseIndentAfterByLanguage: Partial<Record<ProgrammingLanguages, Array<string>>> = {
+  python: ["{", "(", "[", ":"],
+  yaml: ["{", "[", ":"],
+};
+
+/**
+ * The settings of a virtual editor, modelled after the editor settings of VS Code.
+ */
+export interface IVirtualEditorOptions {
+  /**
+   * The number of columns a tab is equal to, like VS Code's `editor.tabSize` setting.
+   */
+  tabSize: number;
+
+  /**
+   * Whether indenting inserts spaces instead of a tab character, like VS Code's `editor.insertSpaces` setting.
+   */
+  insertSpaces: boolean;
+
+  /**
+   * The line endings of the code returned by the virtual editor, like VS Code's `files.eol` setting.
+   */
+  eol: EndOfLine;
+
+  /**
+   * Whether whitespace inserted by auto indentation is removed again when the line is left empty, like VS Code's `editor.trimAutoWhitespace` setting.
+   */
+  trimAutoWhitespace: boolean;
+
+  /**
+   * When typing an opening bracket inserts the matching closing bracket.
+   */
+  autoClosingBrackets: AutoClosingBrackets;
+
+  /**
+   * When typing an opening quote inserts the closing quote.
+   */
+  autoClosingQuotes: AutoClosingQuotes;
+
+  /**
+   * When typing a closing bracket or quote types over the one right after the caret.
+   */
+  autoClosingOvertype: AutoClosingOvertype;
+
+  /**
+   * When a backspace between an empty pair of brackets or quotes deletes both.
+   */
+  autoClosingDelete: AutoClosingDelete;
+
+  /**
+   * Which opening characters wrap the highlighted text instead of replacing it when typed.
+   */
+  autoSurround: AutoSurround;
+
+  /**
+   * How the indentation of a new line is determined when pressing enter.
+   */
+  autoIndent: AutoIndent;
+
+  /**
+   * The characters that separate words when navigating or deleting by word, like VS Code's `editor.wordSeparators` setting.
+   */
+  wordSeparators: string;
+
+  /**
+   * How the actions applied to the editor are validated.
+   */
+  validation: ValidationMode;
+
+  /**
+   * The language of the code in the editor. It determines the characters after which the `brackets` autoIndent mode indents one level deeper, see IncreaseIndentAfterByLanguage.
+   */
+  language?: ProgrammingLanguages;
+
+  /**
+   * The characters after which the `brackets` autoIndent mode indents one level deeper. Takes precedence over the language.
+   */
+  increaseIndentAfter?: Array<string>;
+}
+
+/**
+ * The default settings of a virtual editor. They match the original behaviour of the virtual editor: tabs are inserted as-is and nothing is auto-closed or auto-indented.
+ */
+export const DefaultVirtualEditorOptions: IVirtualEditorOptions = {
+  tabSize: 4,
+  insertSpaces: false,
+  eol: "LF",
+  trimAutoWhitespace: true,
+  autoClosingBrackets: "never",
+  autoClosingQuotes: "never",
+  autoClosingOvertype: "auto",
+  autoClosingDelete: "auto",
+  autoSurround: "never",
+  autoIndent: "none",
+  wordSeparators: DefaultWordSeparators,
+  validation: "off",
+};
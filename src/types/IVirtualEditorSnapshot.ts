@@ -0,0 +1,126 @@
+import { EditorAction, IAction, IEditorPosition } from "@fullstackcraftllc/codevideo-types";
+import { IFindWidgetState } from "./IFindWidgetState";
+import { IVirtualEditorOptions } from "./IVirtualEditorOptions";
+
+/**
+ * The kinds of edits that are merged into a single undo group when applied consecutively, the same way VS Code groups typing and deleting.
+ */
+export type EditGroupKind = "typing" | "deleting" | "other";
+
+/**
+ * The LOGICAL (0,0) referenced state of a single cursor: its caret, its highlight start (-1 for no highlight) and its desired column (-1 for none).
+ */
+export interface ICursorState {
+  caretRow: number;
+  caretCol: number;
+  highlightStartRow: number;
+  highlightStartCol: number;
+  desiredCol: number;
+}
+
+/**
+ * The cursors of the editor, which undo and redo restore along with the code.
+ */
+export interface IEditState {
+  caretRow: number;
+  caretCol: number;
+  highlightStartRow: number;
+  highlightStartCol: number;
+  secondaryCursors: Array<ICursorState>;
+}
+
+/**
+ * A single replacement of text, at a LOGICAL (0,0) referenced position of the code it was made in: the text it removed from there and the text it inserted instead, with lines separated by '\n'.
+ */
+export interface ITextEdit {
+  row: number;
+  col: number;
+  removedText: string;
+  insertedText: string;
+}
+
+/**
+ * A single entry of the undo / redo stacks: the text edits of a group of actions, in the order they were made, and the cursors before and after them.
+ */
+export interface IEditGroup {
+  kind: EditGroupKind;
+  edits: Array<ITextEdit>;
+  before: IEditState;
+  after: IEditState;
+}
+
+/**
+ * The change between the code lines of two consecutive steps: deletedCount lines starting at startRow were replaced by insertedLines.
+ */
+export interface ICodeLinesDelta {
+  startRow: number;
+  deletedCount: number;
+  insertedLines: Array<string>;
+}
+
+/**
+ * The code lines history of a virtual editor: the delta of every step from the step before (the first step's delta inserts all of its lines), along with the full code lines of every keyframeInterval-th step.
+ */
+export interface ICodeLinesHistorySnapshot {
+  keyframeInterval: number;
+  keyframes: Array<Array<string>>;
+  deltas: Array<ICodeLinesDelta>;
+}
+
+/**
+ * The find widget states of a virtual editor: every distinct state once, and the index of the state of every step - steps which don't change the find widget share the state of the step before.
+ */
+export interface IFindWidgetStateHistorySnapshot {
+  states: Array<IFindWidgetState>;
+  stateIndices: Array<number>;
+}
+
+/**
+ * The histories of a virtual editor, with one entry per step (the initial code being the first step).
+ */
+export interface IVirtualEditorSnapshotHistory {
+  actionsApplied: Array<IAction>;
+  editorActionsApplied: Array<EditorAction>;
+  codeLinesHistory: ICodeLinesHistorySnapshot;
+  caretPositionHistory: Array<IEditorPosition>;
+  highlightStartPositionHistory: Array<IEditorPosition>;
+  highlightHistory: Array<Array<string>>;
+  findWidgetStateHistory: IFindWidgetStateHistorySnapshot;
+  isSavedHistory: Array<boolean>;
+  isEditorContextMenuOpenHistory: Array<boolean>;
+  secondaryCursorsHistory: Array<Array<ICursorState>>;
+}
+
+/**
+ * The complete state of a virtual editor, as returned by getSnapshot and restored by VirtualEditor.fromSnapshot. Like the histories, all positions are LOGICAL (0,0) referenced, with -1 representing no highlight.
+ */
+export interface IVirtualEditorSnapshot {
+  codeLines: Array<string>;
+  caretRow: number;
+  caretCol: number;
+  highlightStartRow: number;
+  highlightStartCol: number;
+  desiredCol: number;
+  secondaryCursors: Array<ICursorState>;
+  highlightedCode: string;
+  isSaved: boolean;
+  isEditorContextMenuOpen: boolean;
+  options: IVirtualEditorOptions;
+  clipboard: { text: string; isWholeLine: boolean };
+  autoClosedCharacters: Array<IEditorPosition>;
+  autoWhitespaceRow: number;
+  isNextOccurrenceWholeWord: boolean;
+  findWidget: Omit<IFindWidgetState, "matches">;
+
+  /**
+   * The undo and redo stacks, only included along with the histories - without them, a restored editor has nothing to undo or redo.
+   */
+  undoStack?: Array<IEditGroup>;
+  redoStack?: Array<IEditGroup>;
+  isLastEditGroupOpen?: boolean;
+
+  /**
+   * The histories, only included when requested - without them, a restored editor starts its histories at the snapshot.
+   */
+  history?: IVirtualEditorSnapshotHistory;
+}
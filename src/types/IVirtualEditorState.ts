@@ -0,0 +1,25 @@
+import { IAction, IEditorPosition } from "@fullstackcraftllc/codevideo-types";
+import { IFindWidgetState } from "./IFindWidgetState";
+import { IVirtualEditorCursor } from "./IVirtualEditorCursor";
+
+/**
+ * The full state of the virtual editor after a single step, with PHYSICAL positions, (1, 1) being the top left of the editor.
+ */
+export interface IVirtualEditorState {
+  /**
+   * The action applied in this step - for the first step, the editor-type action of the initial code.
+   */
+  action: IAction;
+  code: string;
+  caretPosition: IEditorPosition;
+  highlightCoordinates: { start: IEditorPosition; end: IEditorPosition } | null;
+  highlightedCode: string;
+  isSaved: boolean;
+  isEditorContextMenuOpen: boolean;
+
+  /**
+   * Every cursor, the primary cursor (the one of caretPosition and highlightCoordinates) first.
+   */
+  cursors: Array<IVirtualEditorCursor>;
+  findWidget: IFindWidgetState;
+}
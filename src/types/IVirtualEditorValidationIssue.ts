@@ -0,0 +1,30 @@
+import { IActionValidationError } from "@fullstackcraftllc/codevideo-types";
+import { IVirtualEditorAction } from "./ExtendedEditorActions";
+import { IVirtualEditorState } from "./IVirtualEditorState";
+
+/**
+ * The kinds of problems found by the validation option of a virtual editor.
+ * - `unrecognized-action`: the virtual editor does not support the editor action - actions for the rest of the IDE, like speech, are never validated
+ * - `invalid-repeat-count`: the value of a repeatable action is not a positive whole number
+ * - `out-of-range-movement`: the action is repeated more often than the caret can move (or delete), so the extra repeats do nothing
+ * - `no-op-action`: the action changed nothing at all - only movements and deletions are rejected by a strict virtual editor for it, as other actions which change nothing (like saving twice) are harmless
+ */
+export type ValidationIssueKind = "unrecognized-action" | "invalid-repeat-count" | "out-of-range-movement" | "no-op-action";
+
+/**
+ * A problem with an action applied to a virtual editor. The actionIndex is the index the action has (or would have had) in getActionsApplied.
+ */
+export interface IVirtualEditorValidationIssue extends IActionValidationError {
+  kind: ValidationIssueKind;
+  action: IVirtualEditorAction;
+
+  /**
+   * The PHYSICAL state of the virtual editor before the action was applied.
+   */
+  state: IVirtualEditorState;
+
+  /**
+   * For out-of-range-movement issues, how many of the repeats have an effect.
+   */
+  effectiveRepeatCount?: number;
+}
@@ -0,0 +1,86 @@
+import { ILineDiffHunk } from "../types/ILineDiffHunk";
+
+// finds the hunks turning the old lines into the new lines with the fewest inserted and deleted lines, using Myers' diff algorithm
+export const diffLines = (oldLines: Array<string>, newLines: Array<string>): Array<ILineDiffHunk> => {
+  // lines which are the same at the start and at the end don't need the diff algorithm
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const matches = findMatchingLines(oldLines.slice(start, oldEnd), newLines.slice(start, newEnd));
+
+  // the hunks are the gaps between the matching lines, including the ones before the first and after the last match
+  const hunks: Array<ILineDiffHunk> = [];
+  let oldRow = 0;
+  let newRow = 0;
+  [...matches, [oldEnd - start, newEnd - start]].forEach(([matchedOldRow, matchedNewRow]) => {
+    if (matchedOldRow > oldRow || matchedNewRow > newRow) {
+      hunks.push({
+        oldStart: start + oldRow,
+        oldCount: matchedOldRow - oldRow,
+        newStart: start + newRow,
+        newCount: matchedNewRow - newRow,
+      });
+    }
+    oldRow = matchedOldRow + 1;
+    newRow = matchedNewRow + 1;
+  });
+  return hunks;
+};
+
+// Helper function to find the longest list of [oldRow, newRow] pairs of matching lines, in order
+const findMatchingLines = (oldLines: Array<string>, newLines: Array<string>): Array<[number, number]> => {
+  const n = oldLines.length;
+  const m = newLines.length;
+  const max = n + m;
+  const offset = max + 1;
+  // v holds the furthest old row reached on every diagonal k = x - y, and the trace keeps the diagonals -d to d before every round d
+  const v = new Int32Array(2 * max + 3);
+  const trace: Array<Int32Array> = [];
+
+  let distance = -1;
+  for (let d = 0; d <= max && distance === -1; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && oldLines[x] === newLines[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        distance = d;
+        break;
+      }
+    }
+  }
+
+  // walk back from the end, collecting the diagonal moves which are the matching lines
+  const matches: Array<[number, number]> = [];
+  let x = n;
+  let y = m;
+  for (let d = distance; d >= 0; d--) {
+    const previousV = trace[d];
+    const k = x - y;
+    const previousK =
+      k === -d || (k !== d && previousV[k - 1 + d] < previousV[k + 1 + d]) ? k + 1 : k - 1;
+    const previousX = d === 0 ? 0 : previousV[previousK + d];
+    const previousY = previousX - previousK;
+    while (x > previousX && y > Math.max(previousY, 0)) {
+      x--;
+      y--;
+      matches.push([x, y]);
+    }
+    x = previousX;
+    y = previousY;
+  }
+  return matches.reverse();
+};
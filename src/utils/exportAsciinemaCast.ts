@@ -0,0 +1,154 @@
+import { IEditorPosition } from "@fullstackcraftllc/codevideo-types";
+import { VirtualEditor } from "../VirtualEditor";
+import { DefaultAsciinemaCastOptions, IAsciinemaCastOptions } from "../types/IAsciinemaCastOptions";
+import { IVirtualEditorState } from "../types/IVirtualEditorState";
+import { getActionTimings } from "./getActionTimings";
+
+/**
+ * The ANSI escape sequences the frames are drawn with.
+ */
+const AnsiEscapeSequences = {
+  clearScreen: "\u001b[H\u001b[2J",
+  reverseVideo: "\u001b[7m",
+  noReverseVideo: "\u001b[27m",
+  dim: "\u001b[2m",
+  noDim: "\u001b[22m",
+};
+
+/**
+ * A range of highlighted characters on a line: from start up to end, which is the length of the line plus one when the highlight goes on past the end of the line.
+ */
+interface IHighlightedRange {
+  start: number;
+  end: number;
+}
+
+// exports the steps of a virtual editor as an asciinema v2 cast: every step is a frame with line numbers and the highlighted code in reverse video, the terminal cursor being the caret
+export const exportAsciinemaCast = (virtualEditor: VirtualEditor, options?: Partial<IAsciinemaCastOptions>): string => {
+  const castOptions = { ...DefaultAsciinemaCastOptions, ...options };
+  const { tabSize } = virtualEditor.getOptions();
+  const timeline = virtualEditor.getTimeline();
+  const timings = getActionTimings(timeline.slice(1).map((state) => state.action), castOptions);
+
+  // the line numbers keep the same width throughout the cast
+  const lineNumberWidth = Math.max(...timeline.map((state) => getCodeLines(state.code).length.toString().length));
+  const header: Record<string, unknown> = { version: 2, width: castOptions.width, height: castOptions.height };
+  if (castOptions.title !== undefined) {
+    header.title = castOptions.title;
+  }
+
+  const events: Array<string> = [JSON.stringify(header)];
+  let topRow = 1;
+  let seconds = 0;
+  let lastFrame = "";
+  timeline.forEach((state, stepIndex) => {
+    // the code scrolls just enough to keep the caret in view
+    const caretRow = state.caretPosition.row;
+    if (caretRow < topRow) {
+      topRow = caretRow;
+    } else if (caretRow >= topRow + castOptions.height) {
+      topRow = caretRow - castOptions.height + 1;
+    }
+
+    // author-speak-during ends after the actions spoken over, but the frames can't go back in time
+    if (stepIndex > 0) {
+      seconds = Math.max(seconds, timings[stepIndex - 1].endMilliseconds / 1000);
+    }
+
+    // steps which don't change what is drawn (like speech) are left out, except for the last, which keeps the length of the cast
+    const frame = renderFrame(state, topRow, lineNumberWidth, tabSize, castOptions);
+    if (frame !== lastFrame || stepIndex === timeline.length - 1) {
+      events.push(JSON.stringify([Math.round(seconds * 1000000) / 1000000, "o", frame]));
+      lastFrame = frame;
+    }
+  });
+  return events.join("\n") + "\n";
+};
+
+// Helper function to draw the state of the virtual editor on a cleared terminal, with the code from a PHYSICAL top row on, and the terminal cursor moved to the caret
+const renderFrame = (
+  state: IVirtualEditorState,
+  topRow: number,
+  lineNumberWidth: number,
+  tabSize: number,
+  options: IAsciinemaCastOptions
+): string => {
+  const codeLines = getCodeLines(state.code);
+  const gutterWidth = lineNumberWidth + 1;
+  const codeWidth = Math.max(options.width - gutterWidth, 0);
+  const highlights = state.cursors.flatMap((cursor) => (cursor.highlightCoordinates ? [cursor.highlightCoordinates] : []));
+
+  const renderedLines = codeLines.slice(topRow - 1, topRow - 1 + options.height).map((line, index) => {
+    const row = topRow + index;
+    const lineNumber = `${AnsiEscapeSequences.dim}${row.toString().padStart(lineNumberWidth)}${AnsiEscapeSequences.noDim} `;
+    const highlightedRanges = highlights.flatMap(({ start, end }) => getHighlightedRange(line, row, start, end) ?? []);
+    return lineNumber + renderLine(line, highlightedRanges, tabSize, codeWidth);
+  });
+
+  // the caret column is where the text before it ends once tabs are expanded, cut off like the line
+  const { row, col } = state.caretPosition;
+  const caretLine = codeLines[row - 1] ?? "";
+  const caretDisplayCol = Math.min(getDisplayWidth(caretLine.substring(0, col - 1), tabSize), Math.max(codeWidth - 1, 0));
+  const cursorPosition = `\u001b[${row - topRow + 1};${Math.min(gutterWidth + caretDisplayCol + 1, options.width)}H`;
+  return AnsiEscapeSequences.clearScreen + renderedLines.join("\r\n") + cursorPosition;
+};
+
+// Helper function to draw a line with its highlighted ranges in reverse video, expanding tabs and cutting it off at the given width
+const renderLine = (line: string, highlightedRanges: Array<IHighlightedRange>, tabSize: number, width: number): string => {
+  let rendered = "";
+  let displayCol = 0;
+  let isReversed = false;
+  const setReversed = (reversed: boolean) => {
+    if (reversed !== isReversed) {
+      rendered += reversed ? AnsiEscapeSequences.reverseVideo : AnsiEscapeSequences.noReverseVideo;
+      isReversed = reversed;
+    }
+  };
+
+  let index = 0;
+  for (const character of line) {
+    const text = character === "\t" ? " ".repeat(tabSize - (displayCol % tabSize)) : character;
+    if (displayCol + text.length > width) {
+      break;
+    }
+    setReversed(highlightedRanges.some((range) => index >= range.start && index < range.end));
+    rendered += text;
+    displayCol += text.length;
+    index += character.length;
+  }
+
+  // a highlight going on past the end of the line shows as a single highlighted space, like the line break it includes
+  if (displayCol < width && highlightedRanges.some((range) => range.end > line.length)) {
+    setReversed(true);
+    rendered += " ";
+  }
+  setReversed(false);
+  return rendered;
+};
+
+// Helper function to get the range of a line covered by a highlight between two PHYSICAL positions, in either order - null if it covers none of it
+const getHighlightedRange = (line: string, row: number, start: IEditorPosition, end: IEditorPosition): IHighlightedRange | null => {
+  const [from, to] = start.row < end.row || (start.row === end.row && start.col <= end.col) ? [start, end] : [end, start];
+  if (row < from.row || row > to.row) {
+    return null;
+  }
+  const range = {
+    start: row === from.row ? from.col - 1 : 0,
+    end: row === to.row ? to.col - 1 : line.length + 1,
+  };
+  return range.end > range.start ? range : null;
+};
+
+// Helper function to get the number of terminal columns a text takes, with its tabs expanded
+const getDisplayWidth = (text: string, tabSize: number): number => {
+  let displayCol = 0;
+  for (const character of text) {
+    displayCol += character === "\t" ? tabSize - (displayCol % tabSize) : 1;
+  }
+  return displayCol;
+};
+
+// Helper function to split code into lines, whatever the line endings of the virtual editor
+const getCodeLines = (code: string): Array<string> => {
+  return code.split(/\r\n|\n/);
+};
@@ -0,0 +1,62 @@
+import { IAction, ISpeechCaption } from "@fullstackcraftllc/codevideo-types";
+import { IActionTimingOptions, ISpeechCaptionCue } from "../types/IActionTiming";
+import { getActionTimings, isSpeechAction } from "./getActionTimings";
+
+// returns the speech captions of the actions along with when they are spoken - speech without any words is left out
+export const getSpeechCaptionCues = (actions: Array<IAction>, options?: Partial<IActionTimingOptions>): Array<ISpeechCaptionCue> => {
+  const timings = getActionTimings(actions, options);
+  return actions.flatMap((action, actionIndex) => {
+    const { startMilliseconds, endMilliseconds } = timings[actionIndex];
+    if (!isSpeechAction(action) || endMilliseconds === startMilliseconds) {
+      return [];
+    }
+    return [
+      {
+        speechType: action.name as ISpeechCaption["speechType"],
+        speechValue: action.value,
+        actionIndex,
+        startMilliseconds,
+        endMilliseconds,
+      },
+    ];
+  });
+};
+
+// exports the speech captions of the actions as an SRT subtitle file
+export const exportSrtCaptions = (actions: Array<IAction>, options?: Partial<IActionTimingOptions>): string => {
+  return getSpeechCaptionCues(actions, options)
+    .map((cue, index) => {
+      const timing = `${formatTimestamp(cue.startMilliseconds, ",")} --> ${formatTimestamp(cue.endMilliseconds, ",")}`;
+      return `${index + 1}\n${timing}\n${getCaptionText(cue.speechValue)}\n`;
+    })
+    .join("\n");
+};
+
+// exports the speech captions of the actions as a WebVTT subtitle file
+export const exportWebVttCaptions = (actions: Array<IAction>, options?: Partial<IActionTimingOptions>): string => {
+  const cues = getSpeechCaptionCues(actions, options).map((cue) => {
+    const timing = `${formatTimestamp(cue.startMilliseconds, ".")} --> ${formatTimestamp(cue.endMilliseconds, ".")}`;
+    const text = getCaptionText(cue.speechValue).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+    return `${timing}\n${text}\n`;
+  });
+  return ["WEBVTT\n", ...cues].join("\n");
+};
+
+// Helper function to format milliseconds as a subtitle timestamp - SRT separates the milliseconds with a comma, WebVTT with a period
+const formatTimestamp = (milliseconds: number, millisecondsSeparator: string): string => {
+  const hours = Math.floor(milliseconds / 3600000);
+  const minutes = Math.floor(milliseconds / 60000) % 60;
+  const seconds = Math.floor(milliseconds / 1000) % 60;
+  const pad = (value: number, length: number) => value.toString().padStart(length, "0");
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}${millisecondsSeparator}${pad(milliseconds % 1000, 3)}`;
+};
+
+// Helper function to get the text of a caption without the blank lines which would end its cue
+const getCaptionText = (speechValue: string): string => {
+  return speechValue
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line !== "")
+    .join("\n");
+};
@@ -0,0 +1,80 @@
+import { IEditorPosition } from "@fullstackcraftllc/codevideo-types";
+import { ITextBuffer } from "../types/ITextBuffer";
+import { getWordCharacterClass } from "./getWordCharacterClass";
+
+/**
+ * A LOGICAL (0,0) referenced match of a search, along with the groups captured by a regular expression query.
+ */
+export interface IFindMatchWithCaptures {
+  start: IEditorPosition;
+  end: IEditorPosition;
+  captures: Array<string>;
+}
+
+// returns every non-empty match of the query in the text of a buffer - an invalid regular expression simply has no matches, like in VS Code's find widget
+export const findMatches = (
+  buffer: ITextBuffer,
+  query: string,
+  isRegex: boolean,
+  isCaseSensitive: boolean,
+  isWholeWord: boolean,
+  wordSeparators: string
+): Array<IFindMatchWithCaptures> => {
+  if (query.length === 0) {
+    return [];
+  }
+
+  const source = isRegex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  let regex: RegExp;
+  try {
+    regex = new RegExp(source, isCaseSensitive ? "gm" : "gim");
+  } catch {
+    return [];
+  }
+
+  const code = buffer.getText();
+  const isRegular = (character: string | undefined) =>
+    character !== undefined && character !== "\n" && getWordCharacterClass(character, wordSeparators) === "regular";
+
+  const matches: Array<IFindMatchWithCaptures> = [];
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(code)) !== null) {
+    const matchedText = match[0];
+    if (matchedText.length === 0) {
+      // empty matches (like '^') would never advance the search
+      regex.lastIndex++;
+      continue;
+    }
+    const startOffset = match.index;
+    const endOffset = startOffset + matchedText.length;
+
+    // like VS Code, a whole word match may not continue a word on either side
+    if (isWholeWord) {
+      const isLeftBounded = !isRegular(code[startOffset - 1]) || !isRegular(matchedText[0]);
+      const isRightBounded = !isRegular(code[endOffset]) || !isRegular(matchedText[matchedText.length - 1]);
+      if (!isLeftBounded || !isRightBounded) {
+        continue;
+      }
+    }
+
+    matches.push({
+      start: buffer.getPositionAt(startOffset),
+      end: buffer.getPositionAt(endOffset),
+      captures: Array.from(match),
+    });
+  }
+  return matches;
+};
+
+// returns the replace text with $& and $1, $2, etc. replaced by the captures of a regular expression match, and $$ by a single $
+export const expandReplaceText = (replaceText: string, captures: Array<string>): string =>
+  replaceText.replace(/\$(\$|&|\d{1,2})/g, (reference, name: string) => {
+    if (name === "$") {
+      return "$";
+    }
+    if (name === "&") {
+      return captures[0];
+    }
+    const index = parseInt(name);
+    return index < captures.length ? captures[index] ?? "" : reference;
+  });
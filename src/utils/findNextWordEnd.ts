@@ -0,0 +1,39 @@
+import { getWordCharacterClass } from "./getWordCharacterClass";
+
+// returns the column where the word after the given column ends, the same way VS Code's cursorWordEndRight does within a single line
+export const findNextWordEnd = (
+  line: string,
+  col: number,
+  wordSeparators: string
+): number => {
+  const getClass = (index: number) =>
+    getWordCharacterClass(line[index], wordSeparators);
+
+  // skip any whitespace directly after the column
+  let start = col;
+  while (start < line.length && getClass(start) === "whitespace") {
+    start++;
+  }
+  if (start === line.length) {
+    return line.length;
+  }
+
+  // a word is a run of characters of the same class
+  const wordClass = getClass(start);
+  let end = start + 1;
+  while (end < line.length && getClass(end) === wordClass) {
+    end++;
+  }
+
+  // a single separator followed by a regular character (like the '.' in 'foo.bar') is skipped over
+  if (
+    wordClass === "separator" &&
+    end - start === 1 &&
+    end < line.length &&
+    getClass(end) === "regular"
+  ) {
+    return findNextWordEnd(line, end, wordSeparators);
+  }
+
+  return end;
+};
@@ -0,0 +1,39 @@
+import { getWordCharacterClass } from "./getWordCharacterClass";
+
+// returns the column where the word before the given column starts, the same way VS Code's cursorWordLeft does within a single line
+export const findPreviousWordStart = (
+  line: string,
+  col: number,
+  wordSeparators: string
+): number => {
+  const getClass = (index: number) =>
+    getWordCharacterClass(line[index], wordSeparators);
+
+  // skip any whitespace directly before the column
+  let end = col;
+  while (end > 0 && getClass(end - 1) === "whitespace") {
+    end--;
+  }
+  if (end === 0) {
+    return 0;
+  }
+
+  // a word is a run of characters of the same class
+  const wordClass = getClass(end - 1);
+  let start = end - 1;
+  while (start > 0 && getClass(start - 1) === wordClass) {
+    start--;
+  }
+
+  // a single separator followed by a regular character (like the '.' in 'foo.bar') is skipped over
+  if (
+    wordClass === "separator" &&
+    end - start === 1 &&
+    end < line.length &&
+    getClass(end) === "regular"
+  ) {
+    return findPreviousWordStart(line, start, wordSeparators);
+  }
+
+  return start;
+};
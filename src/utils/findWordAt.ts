@@ -0,0 +1,22 @@
+import { getWordCharacterClass } from "./getWordCharacterClass";
+
+// returns the columns of the word touching the given column (either containing it or ending right at it), or null if there is no word there
+export const findWordAt = (
+  line: string,
+  col: number,
+  wordSeparators: string
+): { startCol: number; endCol: number } | null => {
+  const isRegular = (index: number) =>
+    getWordCharacterClass(line[index], wordSeparators) === "regular";
+
+  let startCol = col;
+  while (startCol > 0 && isRegular(startCol - 1)) {
+    startCol--;
+  }
+  let endCol = col;
+  while (endCol < line.length && isRegular(endCol)) {
+    endCol++;
+  }
+
+  return startCol === endCol ? null : { startCol, endCol };
+};
@@ -0,0 +1,162 @@
+import { IAction, IEditorPosition } from "@fullstackcraftllc/codevideo-types";
+import { VirtualEditor } from "../VirtualEditor";
+import { diffLines } from "./diffLines";
+import { getCommonAffixLengths } from "./getCommonAffixLengths";
+import { splitHunkBySimilarLines } from "./splitHunkBySimilarLines";
+
+// generates the editor actions which turn the initial code lines into the target code the way an author would type them: moving the caret with the arrows, highlighting the text being replaced and pressing enter for new lines
+export const generateActions = (initialCodeLines: Array<string>, targetCode: string): Array<IAction> => {
+  // the actions are applied as they are generated, so the caret positions always come from the virtual editor itself
+  const editor = new VirtualEditor(initialCodeLines);
+  const actions: Array<IAction> = [];
+  const targetLines = targetCode.replace(/\r\n?/g, "\n").split("\n");
+
+  // the hunks are edited from the top, so the rows of a hunk are its rows in the target code
+  const initialLines = editor.getCodeLines();
+  const hunks = diffLines(initialLines, targetLines).flatMap((hunk) => splitHunkBySimilarLines(initialLines, targetLines, hunk));
+  hunks.forEach(({ oldStart, oldCount, newStart, newCount }) => {
+    const oldLines = editor.getCodeLines().slice(newStart, newStart + oldCount);
+    const newLines = targetLines.slice(newStart, newStart + newCount);
+
+    if (oldCount === 0) {
+      // new lines go after the end of the line above them, or before the first line
+      if (newStart > 0) {
+        moveCaretTo(editor, actions, { row: newStart - 1, col: getLineLength(editor, newStart - 1) });
+        typeText(editor, actions, "\n" + newLines.join("\n"));
+      } else {
+        moveCaretTo(editor, actions, { row: 0, col: 0 });
+        typeText(editor, actions, newLines.join("\n") + "\n");
+      }
+    } else if (newCount === 0) {
+      // deleted lines are highlighted along with the line break after them, or before them for the last lines
+      const lineCount = editor.getCodeLines().length;
+      if (newStart + oldCount < lineCount) {
+        moveCaretTo(editor, actions, { row: newStart, col: 0 });
+        highlightTo(editor, actions, { row: newStart + oldCount, col: 0 });
+      } else {
+        moveCaretTo(editor, actions, { row: newStart - 1, col: getLineLength(editor, newStart - 1) });
+        highlightTo(editor, actions, { row: lineCount - 1, col: getLineLength(editor, lineCount - 1) });
+      }
+      applyAction(editor, actions, "editor-backspace", "1");
+    } else if (oldCount === newCount) {
+      // changed lines are changed one by one
+      oldLines.forEach((oldLine, index) => replaceText(editor, actions, newStart + index, oldLine, newLines[index]));
+    } else {
+      replaceText(editor, actions, newStart, oldLines.join("\n"), newLines.join("\n"));
+    }
+  });
+
+  if (editor.getCode() !== targetLines.join("\n")) {
+    throw new Error("codevideo-virtual-editor: The generated actions don't reproduce the target code.");
+  }
+  return actions;
+};
+
+// Helper function to change the text starting at the start of a row, typing only the part between what stays the same at its start and its end
+const replaceText = (editor: VirtualEditor, actions: Array<IAction>, row: number, oldText: string, newText: string) => {
+  const { prefixLength, suffixLength } = getCommonAffixLengths(oldText, newText);
+  const deletedText = oldText.substring(prefixLength, oldText.length - suffixLength);
+  const insertedText = newText.substring(prefixLength, newText.length - suffixLength);
+  const start = getPositionAt(oldText, prefixLength, row);
+  const end = getPositionAt(oldText, prefixLength + deletedText.length, row);
+
+  if (deletedText === "") {
+    moveCaretTo(editor, actions, start);
+    typeText(editor, actions, insertedText);
+  } else if (insertedText === "" && start.row === end.row) {
+    // text deleted from a single line is deleted with backspace
+    moveCaretTo(editor, actions, end);
+    applyAction(editor, actions, "editor-backspace", deletedText.length.toString());
+  } else {
+    // anything else is highlighted and typed over
+    moveCaretTo(editor, actions, start);
+    highlightTo(editor, actions, end);
+    if (insertedText === "") {
+      applyAction(editor, actions, "editor-backspace", "1");
+    } else {
+      typeText(editor, actions, insertedText);
+    }
+  }
+};
+
+// Helper function to move the caret to a LOGICAL position: up or down first, then along the line with the arrows, or from the start or the end of the line when that takes fewer key presses
+const moveCaretTo = (editor: VirtualEditor, actions: Array<IAction>, position: IEditorPosition) => {
+  let caret = getCaret(editor);
+  if (caret.row !== position.row) {
+    applyAction(editor, actions, caret.row < position.row ? "editor-arrow-down" : "editor-arrow-up", Math.abs(position.row - caret.row).toString());
+    caret = getCaret(editor);
+  }
+  if (caret.col === position.col) {
+    return;
+  }
+
+  const lineLength = getLineLength(editor, position.row);
+  const arrowPresses = Math.abs(position.col - caret.col);
+  if (caret.col !== lineLength && lineLength - position.col + 1 < arrowPresses) {
+    applyAction(editor, actions, "editor-command-right", "1");
+    caret = getCaret(editor);
+  } else if (position.col + 1 < arrowPresses) {
+    applyAction(editor, actions, "editor-command-left", "1");
+    caret = getCaret(editor);
+  }
+  if (caret.col !== position.col) {
+    applyAction(editor, actions, caret.col < position.col ? "editor-arrow-right" : "editor-arrow-left", Math.abs(position.col - caret.col).toString());
+  }
+};
+
+// Helper function to highlight from the caret to a LOGICAL position, first up or down, then along the line
+const highlightTo = (editor: VirtualEditor, actions: Array<IAction>, position: IEditorPosition) => {
+  let caret = getCaret(editor);
+  if (caret.row !== position.row) {
+    applyAction(editor, actions, caret.row < position.row ? "editor-shift+arrow-down" : "editor-shift+arrow-up", Math.abs(position.row - caret.row).toString());
+    caret = getCaret(editor);
+  }
+  if (caret.col !== position.col) {
+    applyAction(editor, actions, caret.col < position.col ? "editor-shift+arrow-right" : "editor-shift+arrow-left", Math.abs(position.col - caret.col).toString());
+  }
+};
+
+// Helper function to type text at the caret, pressing enter for its line breaks
+const typeText = (editor: VirtualEditor, actions: Array<IAction>, text: string) => {
+  let enterCount = 0;
+  text.split("\n").forEach((line, index) => {
+    if (index > 0) {
+      enterCount++;
+    }
+    if (line === "") {
+      return;
+    }
+    if (enterCount > 0) {
+      applyAction(editor, actions, "editor-enter", enterCount.toString());
+      enterCount = 0;
+    }
+    applyAction(editor, actions, "editor-type", line);
+  });
+  if (enterCount > 0) {
+    applyAction(editor, actions, "editor-enter", enterCount.toString());
+  }
+};
+
+// Helper function to apply an action to the virtual editor and add it to the generated actions
+const applyAction = (editor: VirtualEditor, actions: Array<IAction>, name: IAction["name"], value: string) => {
+  const action: IAction = { name, value };
+  editor.applyAction(action);
+  actions.push(action);
+};
+
+// Helper function to get the LOGICAL caret position of the virtual editor
+const getCaret = (editor: VirtualEditor): IEditorPosition => {
+  const { row, col } = editor.getCurrentCaretPosition();
+  return { row: row - 1, col: col - 1 };
+};
+
+// Helper function to get the length of a line of the virtual editor
+const getLineLength = (editor: VirtualEditor, row: number): number => {
+  return editor.getCodeLines()[row].length;
+};
+
+// Helper function to get the LOGICAL position of an offset in text starting at the start of a row
+const getPositionAt = (text: string, offset: number, row: number): IEditorPosition => {
+  const lines = text.substring(0, offset).split("\n");
+  return { row: row + lines.length - 1, col: lines[lines.length - 1].length };
+};
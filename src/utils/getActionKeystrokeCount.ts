@@ -0,0 +1,19 @@
+import { IAction, isEditorAction } from "@fullstackcraftllc/codevideo-types";
+import { ActionNamesIgnoringRepeatCount, IVirtualEditorAction } from "../types/ExtendedEditorActions";
+import { isRepeatableVirtualEditorAction } from "./isRepeatableVirtualEditorAction";
+
+// returns the number of keystrokes an editor action takes: a keystroke for every character typed, the repeat count of repeatable actions, and a single keystroke for anything else (like saving, which is done once whatever its value) - actions outside the editor take none
+export const getActionKeystrokeCount = (action: IVirtualEditorAction): number => {
+  if (!isEditorAction(action as IAction)) {
+    return 0;
+  }
+  if (action.name === "editor-type") {
+    // characters outside the basic multilingual plane are typed with a single keystroke too
+    return Array.from(action.value).length;
+  }
+  if (isRepeatableVirtualEditorAction(action) && !ActionNamesIgnoringRepeatCount.includes(action.name)) {
+    // the virtual editor repeats an action with an invalid count zero times
+    return Math.max(parseInt(action.value) || 0, 0);
+  }
+  return 1;
+};
@@ -0,0 +1,40 @@
+import { IAction } from "@fullstackcraftllc/codevideo-types";
+import { DefaultActionTimingOptions, IActionTiming, IActionTimingOptions } from "../types/IActionTiming";
+import { getActionKeystrokeCount } from "./getActionKeystrokeCount";
+
+// estimates when each action is played back: actions follow each other, except author-speak-during, which is spoken while the actions after it are played - but the author never says two things at once
+// the times are rounded to whole milliseconds, but only once they are added up, so a fractional pace doesn't drift
+export const getActionTimings = (actions: Array<IAction>, options?: Partial<IActionTimingOptions>): Array<IActionTiming> => {
+  const timingOptions = { ...DefaultActionTimingOptions, ...options };
+  let milliseconds = 0;
+  let speakingUntilMilliseconds = 0;
+  return actions.map((action, actionIndex) => {
+    const duration = getActionDuration(action, timingOptions);
+    if (isSpeechAction(action)) {
+      const startMilliseconds = Math.max(milliseconds, speakingUntilMilliseconds);
+      speakingUntilMilliseconds = startMilliseconds + duration;
+      milliseconds = action.name === "author-speak-during" ? startMilliseconds : speakingUntilMilliseconds;
+      return { actionIndex, startMilliseconds: Math.round(startMilliseconds), endMilliseconds: Math.round(speakingUntilMilliseconds) };
+    }
+    const startMilliseconds = milliseconds;
+    milliseconds += duration;
+    return { actionIndex, startMilliseconds: Math.round(startMilliseconds), endMilliseconds: Math.round(milliseconds) };
+  });
+};
+
+// returns whether an action is spoken by the author
+export const isSpeechAction = (action: IAction): boolean => {
+  return action.name === "author-speak-before" || action.name === "author-speak-after" || action.name === "author-speak-during";
+};
+
+// Helper function to estimate how long an action takes in milliseconds - actions other than speech, waits and editor actions are taken to be instant
+const getActionDuration = (action: IAction, options: IActionTimingOptions): number => {
+  if (isSpeechAction(action)) {
+    const wordCount = action.value.split(/\s+/).filter((word) => word !== "").length;
+    return Math.round((wordCount * 60000) / options.wordsPerMinute);
+  }
+  if (action.name === "author-wait") {
+    return Math.max(parseInt(action.value) || 0, 0);
+  }
+  return getActionKeystrokeCount(action) * options.millisecondsPerKeystroke;
+};
@@ -0,0 +1,140 @@
+import { IEditorPosition } from "@fullstackcraftllc/codevideo-types";
+import { CodeDiffChangeKind, ICodeDiff, ICodeDiffChange, ICodeDiffRange } from "../types/ICodeDiff";
+import { ILineDiffHunk } from "../types/ILineDiffHunk";
+import { diffLines } from "./diffLines";
+import { getCommonAffixLengths } from "./getCommonAffixLengths";
+import { splitHunkBySimilarLines } from "./splitHunkBySimilarLines";
+
+/**
+ * The number of unchanged lines shown around the changes of a unified diff.
+ */
+const UnifiedDiffContextLineCount = 3;
+
+// returns the changes between two versions of the code, along with the unified diff labelled with the given names of the old and new code
+export const getCodeDiff = (
+  oldLines: Array<string>,
+  newLines: Array<string>,
+  oldLabel: string,
+  newLabel: string
+): ICodeDiff => {
+  const hunks = diffLines(oldLines, newLines);
+  const changes = hunks
+    .flatMap((hunk) => splitHunkBySimilarLines(oldLines, newLines, hunk))
+    .map((hunk) => getChange(oldLines, newLines, hunk));
+  return {
+    changes,
+    unifiedDiff: getUnifiedDiff(oldLines, newLines, hunks, oldLabel, newLabel),
+  };
+};
+
+// Helper function to describe a hunk as a change, with the characters it deletes and inserts
+const getChange = (oldLines: Array<string>, newLines: Array<string>, hunk: ILineDiffHunk): ICodeDiffChange => {
+  const { oldStart, oldCount, newStart, newCount } = hunk;
+  const changedOldLines = oldLines.slice(oldStart, oldStart + oldCount);
+  const changedNewLines = newLines.slice(newStart, newStart + newCount);
+
+  let kind: CodeDiffChangeKind = "modified";
+  let deletedRange: ICodeDiffRange | null = null;
+  let insertedRange: ICodeDiffRange | null = null;
+  if (oldCount === 0) {
+    kind = "inserted";
+    insertedRange = getRange(changedNewLines, newStart, 0, changedNewLines.join("\n").length);
+  } else if (newCount === 0) {
+    kind = "deleted";
+    deletedRange = getRange(changedOldLines, oldStart, 0, changedOldLines.join("\n").length);
+  } else {
+    // only the characters between the text the lines keep at their start and at their end changed
+    const oldText = changedOldLines.join("\n");
+    const newText = changedNewLines.join("\n");
+    const { prefixLength, suffixLength } = getCommonAffixLengths(oldText, newText);
+    if (oldText.length - suffixLength > prefixLength) {
+      deletedRange = getRange(changedOldLines, oldStart, prefixLength, oldText.length - suffixLength);
+    }
+    if (newText.length - suffixLength > prefixLength) {
+      insertedRange = getRange(changedNewLines, newStart, prefixLength, newText.length - suffixLength);
+    }
+  }
+
+  return {
+    kind,
+    oldStartRow: oldStart + 1,
+    oldLineCount: oldCount,
+    newStartRow: newStart + 1,
+    newLineCount: newCount,
+    oldLines: changedOldLines,
+    newLines: changedNewLines,
+    deletedRange,
+    insertedRange,
+  };
+};
+
+// Helper function to get the PHYSICAL range between two offsets of lines starting at a LOGICAL row
+const getRange = (lines: Array<string>, row: number, startOffset: number, endOffset: number): ICodeDiffRange => {
+  return {
+    start: getPhysicalPositionAt(lines, row, startOffset),
+    end: getPhysicalPositionAt(lines, row, endOffset),
+  };
+};
+
+// Helper function to get the PHYSICAL position of an offset of lines starting at a LOGICAL row
+const getPhysicalPositionAt = (lines: Array<string>, row: number, offset: number): IEditorPosition => {
+  let index = 0;
+  while (index < lines.length - 1 && offset > lines[index].length) {
+    offset -= lines[index].length + 1;
+    index++;
+  }
+  return { row: row + index + 1, col: offset + 1 };
+};
+
+// Helper function to format the hunks in the unified diff format, merging the hunks whose context lines touch
+const getUnifiedDiff = (
+  oldLines: Array<string>,
+  newLines: Array<string>,
+  hunks: Array<ILineDiffHunk>,
+  oldLabel: string,
+  newLabel: string
+): string => {
+  if (hunks.length === 0) {
+    return "";
+  }
+
+  const groups: Array<Array<ILineDiffHunk>> = [];
+  hunks.forEach((hunk) => {
+    const lastGroup = groups[groups.length - 1];
+    const lastHunk = lastGroup && lastGroup[lastGroup.length - 1];
+    if (lastHunk && hunk.oldStart - (lastHunk.oldStart + lastHunk.oldCount) <= UnifiedDiffContextLineCount * 2) {
+      lastGroup.push(hunk);
+    } else {
+      groups.push([hunk]);
+    }
+  });
+
+  const unifiedDiffLines = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  groups.forEach((group) => {
+    const firstHunk = group[0];
+    const lastHunk = group[group.length - 1];
+    const oldFrom = Math.max(0, firstHunk.oldStart - UnifiedDiffContextLineCount);
+    const oldTo = Math.min(oldLines.length, lastHunk.oldStart + lastHunk.oldCount + UnifiedDiffContextLineCount);
+    const newFrom = firstHunk.newStart - (firstHunk.oldStart - oldFrom);
+    const newTo = lastHunk.newStart + lastHunk.newCount + (oldTo - lastHunk.oldStart - lastHunk.oldCount);
+    unifiedDiffLines.push(`@@ -${formatUnifiedDiffRange(oldFrom, oldTo - oldFrom)} +${formatUnifiedDiffRange(newFrom, newTo - newFrom)} @@`);
+
+    let row = oldFrom;
+    group.forEach((hunk) => {
+      oldLines.slice(row, hunk.oldStart).forEach((line) => unifiedDiffLines.push(` ${line}`));
+      oldLines.slice(hunk.oldStart, hunk.oldStart + hunk.oldCount).forEach((line) => unifiedDiffLines.push(`-${line}`));
+      newLines.slice(hunk.newStart, hunk.newStart + hunk.newCount).forEach((line) => unifiedDiffLines.push(`+${line}`));
+      row = hunk.oldStart + hunk.oldCount;
+    });
+    oldLines.slice(row, oldTo).forEach((line) => unifiedDiffLines.push(` ${line}`));
+  });
+  return unifiedDiffLines.join("\n") + "\n";
+};
+
+// Helper function to format the LOGICAL start row and line count of a unified diff hunk header the way GNU diff does: an empty range starts at the row before it, and a count of 1 is left out
+const formatUnifiedDiffRange = (start: number, count: number): string => {
+  if (count === 0) {
+    return `${start},0`;
+  }
+  return count === 1 ? `${start + 1}` : `${start + 1},${count}`;
+};
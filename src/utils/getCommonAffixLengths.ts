@@ -0,0 +1,31 @@
+// returns the lengths of the text two strings start with and of the text they end with after that, without splitting a surrogate pair
+export const getCommonAffixLengths = (a: string, b: string): { prefixLength: number; suffixLength: number } => {
+  const maxLength = Math.min(a.length, b.length);
+  let prefixLength = 0;
+  while (prefixLength < maxLength && a[prefixLength] === b[prefixLength]) {
+    prefixLength++;
+  }
+  if (prefixLength > 0 && prefixLength < Math.max(a.length, b.length) && isHighSurrogate(a.charCodeAt(prefixLength - 1))) {
+    prefixLength--;
+  }
+
+  // the suffix never overlaps the prefix
+  let suffixLength = 0;
+  while (suffixLength < maxLength - prefixLength && a[a.length - 1 - suffixLength] === b[b.length - 1 - suffixLength]) {
+    suffixLength++;
+  }
+  if (
+    suffixLength > 0 &&
+    suffixLength < Math.max(a.length, b.length) - prefixLength &&
+    isLowSurrogate(a.charCodeAt(a.length - suffixLength))
+  ) {
+    suffixLength--;
+  }
+  return { prefixLength, suffixLength };
+};
+
+// Helper function to check if a character code is the first half of a surrogate pair
+const isHighSurrogate = (charCode: number): boolean => charCode >= 0xd800 && charCode <= 0xdbff;
+
+// Helper function to check if a character code is the second half of a surrogate pair
+const isLowSurrogate = (charCode: number): boolean => charCode >= 0xdc00 && charCode <= 0xdfff;
@@ -0,0 +1,59 @@
+import { IAction } from "@fullstackcraftllc/codevideo-types";
+import { VirtualEditor } from "../VirtualEditor";
+import { IVirtualEditorAction } from "../types/ExtendedEditorActions";
+import { IKeystrokeFrame } from "../types/IKeystrokeFrame";
+import { IVirtualEditorOptions } from "../types/IVirtualEditorOptions";
+import { getActionKeystrokeCount } from "./getActionKeystrokeCount";
+
+// expands the actions into a frame for every keystroke, starting with the frame of the initial code - actions without keystrokes get a single frame
+export const getKeystrokeFrames = (
+  initialCodeLines: Array<string>,
+  actions: Array<IVirtualEditorAction>,
+  options?: Partial<IVirtualEditorOptions>
+): Array<IKeystrokeFrame> => {
+  const virtualEditor = new VirtualEditor(initialCodeLines, undefined, false, options);
+  const frames: Array<IKeystrokeFrame> = [
+    { actionIndex: -1, keystroke: 0, keystrokeCount: 0, state: virtualEditor.getStateAtActionIndex(0) },
+  ];
+
+  actions.forEach((action, actionIndex) => {
+    const keystrokeCount = getActionKeystrokeCount(action);
+    if (keystrokeCount > 1) {
+      // the keystrokes before the last one are applied one at a time to a copy which can undo and redo like the virtual editor, so each frame only costs a keystroke
+      // a keystroke can't be invalid if the whole action isn't, so the copy isn't validated
+      const keystrokeVirtualEditor = virtualEditor.clone({ validation: "off" });
+      getKeystrokeActions(action)
+        .slice(0, keystrokeCount - 1)
+        .forEach((keystrokeAction, keystrokeIndex) => {
+          keystrokeVirtualEditor.applyAction(keystrokeAction);
+          const keystroke = keystrokeIndex + 1;
+          const state = keystrokeVirtualEditor.getStateAtActionIndex(keystroke);
+          frames.push({ actionIndex, keystroke, keystrokeCount, state: { ...state, action: getPartialAction(action, keystroke) as IAction } });
+        });
+    }
+    virtualEditor.applyAction(action);
+    frames.push({
+      actionIndex,
+      keystroke: keystrokeCount,
+      keystrokeCount,
+      state: virtualEditor.getStateAtActionIndex(actionIndex + 1),
+    });
+  });
+  return frames;
+};
+
+// Helper function to split an action into an action per keystroke: a character typed, or a single repeat
+const getKeystrokeActions = (action: IVirtualEditorAction): Array<IVirtualEditorAction> => {
+  if (action.name === "editor-type") {
+    return Array.from(action.value).map((character) => ({ name: action.name, value: character }));
+  }
+  return Array.from({ length: getActionKeystrokeCount(action) }, () => ({ name: action.name, value: "1" }));
+};
+
+// Helper function to get the action made of the first keystrokes of an action: the first characters typed, or the first repeats
+const getPartialAction = (action: IVirtualEditorAction, keystrokeCount: number): IVirtualEditorAction => {
+  if (action.name === "editor-type") {
+    return { name: action.name, value: Array.from(action.value).slice(0, keystrokeCount).join("") };
+  }
+  return { name: action.name, value: keystrokeCount.toString() };
+};
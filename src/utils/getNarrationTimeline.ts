@@ -0,0 +1,81 @@
+import { IAction, ISpeechCaption, isAuthorAction, isEditorAction } from "@fullstackcraftllc/codevideo-types";
+import { VirtualEditor } from "../VirtualEditor";
+import { IActionIndexRange, INarrationSegment } from "../types/INarrationSegment";
+import { IVirtualEditorOptions } from "../types/IVirtualEditorOptions";
+
+// groups the actions of a lesson into segments: every run of actions between author actions, along with the speech introducing and following it
+export const getNarrationTimeline = (
+  initialCodeLines: Array<string>,
+  actions: Array<IAction>,
+  options?: Partial<IVirtualEditorOptions>
+): Array<INarrationSegment> => {
+  // the runs of actions that aren't author actions
+  const runs: Array<IActionIndexRange> = [];
+  actions.forEach((action, index) => {
+    if (isAuthorAction(action)) {
+      return;
+    }
+    const lastRun = runs[runs.length - 1];
+    if (lastRun && lastRun.endIndex === index - 1) {
+      lastRun.endIndex = index;
+    } else {
+      runs.push({ startIndex: index, endIndex: index });
+    }
+  });
+
+  // the virtual editor steps are the actions, after the step of the initial code - author actions and the like change nothing, so they aren't validated
+  const virtualEditor = new VirtualEditor(initialCodeLines, actions, false, { ...options, validation: "off" });
+  if (runs.length === 0) {
+    return actions.length === 0 ? [] : [getSegment(actions, virtualEditor, { startIndex: 0, endIndex: actions.length - 1 })];
+  }
+
+  // the author actions between two runs follow the first run, until the first one introducing what comes next
+  const segmentStartIndices = runs.map((run, runIndex) => {
+    if (runIndex === 0) {
+      return 0;
+    }
+    const gapStartIndex = runs[runIndex - 1].endIndex + 1;
+    const introductionIndex = actions
+      .slice(gapStartIndex, run.startIndex)
+      .findIndex((action) => action.name === "author-speak-before" || action.name === "author-speak-during");
+    return introductionIndex === -1 ? run.startIndex : gapStartIndex + introductionIndex;
+  });
+
+  return runs.map((run, runIndex) => {
+    const actionRange = {
+      startIndex: segmentStartIndices[runIndex],
+      endIndex: runIndex === runs.length - 1 ? actions.length - 1 : segmentStartIndices[runIndex + 1] - 1,
+    };
+    return getSegment(actions, virtualEditor, actionRange, run);
+  });
+};
+
+// Helper function to describe the segment of a range of actions, with the code before and after the editor actions of its run, if it has one
+const getSegment = (
+  actions: Array<IAction>,
+  virtualEditor: VirtualEditor,
+  actionRange: IActionIndexRange,
+  run?: IActionIndexRange
+): INarrationSegment => {
+  const segmentActions = actions.slice(actionRange.startIndex, actionRange.endIndex + 1);
+  const speechCaptions: Array<ISpeechCaption> = segmentActions
+    .filter((action) => isAuthorAction(action) && action.name !== "author-wait")
+    .map((action) => ({ speechType: action.name as ISpeechCaption["speechType"], speechValue: action.value }));
+
+  let editorActionRange: IActionIndexRange | null = null;
+  if (run) {
+    const runActions = actions.slice(run.startIndex, run.endIndex + 1);
+    const firstEditorActionIndex = runActions.findIndex((action) => isEditorAction(action));
+    if (firstEditorActionIndex !== -1) {
+      const lastEditorActionIndex = runActions.length - 1 - [...runActions].reverse().findIndex((action) => isEditorAction(action));
+      editorActionRange = {
+        startIndex: run.startIndex + firstEditorActionIndex,
+        endIndex: run.startIndex + lastEditorActionIndex,
+      };
+    }
+  }
+
+  const codeBefore = virtualEditor.getCodeAtActionIndex(editorActionRange ? editorActionRange.startIndex : actionRange.startIndex);
+  const codeAfter = editorActionRange ? virtualEditor.getCodeAtActionIndex(editorActionRange.endIndex + 1) : codeBefore;
+  return { speechCaptions, actionRange, editorActionRange, codeBefore, codeAfter };
+};
@@ -0,0 +1,7 @@
+let lastTextBufferVersionId = 0;
+
+// returns a version id no text buffer has used yet, so that equal version ids always mean equal text - even across clones
+export const getNextTextBufferVersionId = (): number => {
+  lastTextBufferVersionId++;
+  return lastTextBufferVersionId;
+};
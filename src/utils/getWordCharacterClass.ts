@@ -0,0 +1,22 @@
+/**
+ * The default word separators, identical to the default of VS Code's `editor.wordSeparators` setting.
+ */
+export const DefaultWordSeparators = "`~!@#$%^&*()-=+[{]}\\|;:'\",.<>/?";
+
+/**
+ * The classes a character can belong to when navigating by word.
+ */
+export type WordCharacterClass = "regular" | "whitespace" | "separator";
+
+export const getWordCharacterClass = (
+  character: string,
+  wordSeparators: string
+): WordCharacterClass => {
+  if (character === " " || character === "\t") {
+    return "whitespace";
+  }
+  if (wordSeparators.includes(character)) {
+    return "separator";
+  }
+  return "regular";
+};
@@ -0,0 +1,165 @@
+import { IAction } from "@fullstackcraftllc/codevideo-types";
+import { VirtualEditor } from "../VirtualEditor";
+import { DefaultHumanizedTypingOptions, IHumanizedTyping, IHumanizedTypingOptions, IHumanizedTypingPace } from "../types/IHumanizedTyping";
+
+/**
+ * The rows of a QWERTY keyboard, each one shifted half a key to the right of the row above.
+ */
+const KeyboardRows = ["1234567890", "qwertyuiop", "asdfghjkl", "zxcvbnm"];
+
+/**
+ * The characters after which the author pauses to think.
+ */
+const PunctuationPauseCharacters = [".", ",", ";", ":", "!", "?", "\n"];
+
+/**
+ * The chance of starting a new action, at a new pace, after a space.
+ */
+const WordPaceChangeProbability = 0.25;
+
+/**
+ * The most characters typed after a typo before it is noticed.
+ */
+const MaxCharactersTypedAfterTypo = 2;
+
+// types text the way a person would: at a varying pace, pausing after punctuation, and now and then hitting a key next to the right one and correcting it with editor-backspace
+// the text is typed in the given virtual editor (a new empty one by default), which isn't changed
+export const humanizeTyping = (
+  text: string,
+  options?: Partial<IHumanizedTypingOptions>,
+  virtualEditor: VirtualEditor = new VirtualEditor([""])
+): IHumanizedTyping => {
+  const humanizedTypingOptions = { ...DefaultHumanizedTypingOptions, ...options };
+  const random = createRandom(humanizedTypingOptions.seed);
+  const characters = Array.from(text);
+  const actions: Array<IAction> = [];
+  const pace: Array<IHumanizedTypingPace> = [];
+
+  // the actions are worked out on a copy of the virtual editor, which isn't validated as the typos are undone anyway
+  const typingVirtualEditor = virtualEditor.clone({ validation: "off" });
+
+  let typedText = "";
+  let pauseMillisecondsBefore = 0;
+  const flushTypedText = () => {
+    if (typedText !== "") {
+      pushAction(typingVirtualEditor, actions, pace, { name: "editor-type", value: typedText }, pauseMillisecondsBefore, humanizedTypingOptions, random);
+      typedText = "";
+      pauseMillisecondsBefore = 0;
+    }
+  };
+
+  characters.forEach((character, index) => {
+    // the first two characters are always typed together, so a highlighted text is never surrounded by a single opening bracket which wasn't typed alone
+    const adjacentKeys = getAdjacentKeys(character);
+    if (index >= 2 && adjacentKeys.length > 0 && random() < humanizedTypingOptions.typoProbability) {
+      const typo = adjacentKeys[Math.floor(random() * adjacentKeys.length)];
+      let typedAfterTypo = "";
+      const maxTypedAfterTypo = Math.floor(random() * (MaxCharactersTypedAfterTypo + 1));
+      for (let next = index + 1; next <= index + maxTypedAfterTypo && getAdjacentKeys(characters[next] ?? "").length > 0; next++) {
+        typedAfterTypo += characters[next];
+      }
+      if (isTypoCorrectable(typingVirtualEditor, typedText, typo + typedAfterTypo, character)) {
+        flushTypedText();
+        pushAction(typingVirtualEditor, actions, pace, { name: "editor-type", value: typo + typedAfterTypo }, 0, humanizedTypingOptions, random);
+        const correctionPause = vary(humanizedTypingOptions.correctionPauseMilliseconds, humanizedTypingOptions.paceVariation, random);
+        const backspaceCount = (1 + Array.from(typedAfterTypo).length).toString();
+        pushAction(typingVirtualEditor, actions, pace, { name: "editor-backspace", value: backspaceCount }, correctionPause, humanizedTypingOptions, random);
+      }
+    }
+
+    typedText += character;
+    if (PunctuationPauseCharacters.includes(character) && index < characters.length - 1 && Array.from(typedText).length + actions.length >= 2) {
+      flushTypedText();
+      pauseMillisecondsBefore = vary(humanizedTypingOptions.punctuationPauseMilliseconds, humanizedTypingOptions.paceVariation, random);
+    } else if (character === " " && actions.length + Array.from(typedText).length >= 2 && random() < WordPaceChangeProbability) {
+      flushTypedText();
+    }
+  });
+  flushTypedText();
+  if (actions.length === 0) {
+    // typing nothing still deletes the highlighted text
+    pushAction(typingVirtualEditor, actions, pace, { name: "editor-type", value: text }, 0, humanizedTypingOptions, random);
+  }
+
+  // each typo is only kept if correcting it leaves the virtual editor as it would have been, but the whole text is checked anyway
+  const expectedCode = virtualEditor.clone({ validation: "off" }).applyActions([{ name: "editor-type", value: text }]);
+  if (virtualEditor.clone({ validation: "off" }).applyActions(actions) !== expectedCode) {
+    throw new Error("codevideo-virtual-editor: The humanized typing doesn't reproduce the typed text.");
+  }
+  return { actions, pace };
+};
+
+// Helper function to check that typing a typo, deleting it, then typing the right character leaves the virtual editor as typing the right character straight away would - a backspace right before an auto closed character forgets it, for one
+// both are tried out on copies of the virtual editor, which share its text instead of copying it
+const isTypoCorrectable = (virtualEditor: VirtualEditor, typedText: string, typo: string, character: string): boolean => {
+  const typedActions: Array<IAction> = typedText === "" ? [] : [{ name: "editor-type", value: typedText }];
+  const withTypo = virtualEditor.clone();
+  withTypo.applyActions([
+    ...typedActions,
+    { name: "editor-type", value: typo },
+    { name: "editor-backspace", value: Array.from(typo).length.toString() },
+    { name: "editor-type", value: character },
+  ]);
+  const withoutTypo = virtualEditor.clone();
+  withoutTypo.applyActions([...typedActions, { name: "editor-type", value: character }]);
+  return getTypingState(withTypo) === getTypingState(withoutTypo);
+};
+
+// Helper function to get the state of a virtual editor which typing depends on - a snapshot leaves out the histories and the undo and redo stacks
+const getTypingState = (virtualEditor: VirtualEditor): string => {
+  return JSON.stringify(virtualEditor.getSnapshot());
+};
+
+// Helper function to apply an action to the virtual editor and add it along with its pace, which varies around the average pace
+const pushAction = (
+  virtualEditor: VirtualEditor,
+  actions: Array<IAction>,
+  pace: Array<IHumanizedTypingPace>,
+  action: IAction,
+  pauseMillisecondsBefore: number,
+  options: IHumanizedTypingOptions,
+  random: () => number
+) => {
+  virtualEditor.applyAction(action);
+  actions.push(action);
+  pace.push({
+    pauseMillisecondsBefore,
+    millisecondsPerKeystroke: vary(options.millisecondsPerKeystroke, options.paceVariation, random),
+  });
+};
+
+// Helper function to get a random duration around an average, by at most the given fraction of it
+const vary = (milliseconds: number, variation: number, random: () => number): number => {
+  return Math.max(Math.round(milliseconds * (1 + variation * (random() * 2 - 1))), 0);
+};
+
+// Helper function to get the keys around the key of a letter or digit on a QWERTY keyboard, in the same case - any other character has none
+const getAdjacentKeys = (character: string): Array<string> => {
+  const key = character.toLowerCase();
+  const row = KeyboardRows.findIndex((keys) => keys.includes(key));
+  if (row === -1 || character.length !== 1) {
+    return [];
+  }
+  const col = KeyboardRows[row].indexOf(key);
+  const adjacentKeys = [
+    KeyboardRows[row][col - 1],
+    KeyboardRows[row][col + 1],
+    KeyboardRows[row - 1]?.[col],
+    KeyboardRows[row - 1]?.[col + 1],
+    KeyboardRows[row + 1]?.[col - 1],
+    KeyboardRows[row + 1]?.[col],
+  ].filter((adjacentKey) => adjacentKey !== undefined);
+  return character === key ? adjacentKeys : adjacentKeys.map((adjacentKey) => adjacentKey.toUpperCase());
+};
+
+// Helper function to create a seeded random number generator (mulberry32), returning numbers between 0 and 1
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+};
@@ -0,0 +1,16 @@
+import { IAction, isRepeatableAction } from "@fullstackcraftllc/codevideo-types";
+import {
+  ExtendedEditorActions,
+  ExtendedRepeatableActionNames,
+  IVirtualEditorAction,
+} from "../types/ExtendedEditorActions";
+
+// same as isRepeatableAction from codevideo-types, but also aware of the ExtendedEditorActions
+export const isRepeatableVirtualEditorAction = (
+  action: IVirtualEditorAction
+): boolean => {
+  return (
+    isRepeatableAction(action as IAction) ||
+    ExtendedRepeatableActionNames.includes(action.name as ExtendedEditorActions)
+  );
+};
@@ -0,0 +1,25 @@
+import { IEditorPosition } from "@fullstackcraftllc/codevideo-types";
+
+// returns where a LOGICAL position ends up after the text between start and oldEnd has been replaced by text ending at newEnd - positions inside the replaced text move to its start
+export const mapPositionThroughEdit = (
+  position: IEditorPosition,
+  start: IEditorPosition,
+  oldEnd: IEditorPosition,
+  newEnd: IEditorPosition
+): IEditorPosition => {
+  const isBefore = (a: IEditorPosition, b: IEditorPosition) =>
+    a.row < b.row || (a.row === b.row && a.col < b.col);
+
+  if (isBefore(position, start)) {
+    return { row: position.row, col: position.col };
+  }
+  if (isBefore(position, oldEnd)) {
+    return { row: start.row, col: start.col };
+  }
+
+  // the rest of the last replaced line follows the end of the new text, every row below just shifts
+  if (position.row === oldEnd.row) {
+    return { row: newEnd.row, col: newEnd.col + position.col - oldEnd.col };
+  }
+  return { row: position.row + newEnd.row - oldEnd.row, col: position.col };
+};
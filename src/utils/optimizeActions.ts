@@ -0,0 +1,402 @@
+import { IEditorPosition, IAction, isEditorAction } from "@fullstackcraftllc/codevideo-types";
+import { VirtualEditor } from "../VirtualEditor";
+import { IVirtualEditorAction } from "../types/ExtendedEditorActions";
+import {
+  ActionScriptDiagnosticKind,
+  IActionScriptAnalysis,
+  IActionScriptDiagnostic,
+} from "../types/IActionScriptAnalysis";
+import { IVirtualEditorOptions } from "../types/IVirtualEditorOptions";
+import { IVirtualEditorValidationIssue } from "../types/IVirtualEditorValidationIssue";
+
+/**
+ * The actions which only move the caret (or the highlight), so they can be removed when they have no effect.
+ */
+const MovementActionNames: Array<IVirtualEditorAction["name"]> = [
+  "editor-arrow-up",
+  "editor-arrow-down",
+  "editor-arrow-left",
+  "editor-arrow-right",
+  "editor-shift+arrow-up",
+  "editor-shift+arrow-down",
+  "editor-shift+arrow-left",
+  "editor-shift+arrow-right",
+  "editor-option-arrow-left",
+  "editor-option-arrow-right",
+  "editor-shift+option-arrow-left",
+  "editor-shift+option-arrow-right",
+  "editor-command-left",
+  "editor-command-right",
+  "editor-goto-line",
+  "editor-goto-text",
+  "editor-select-text",
+];
+
+/**
+ * The movements which are repeated by their value, so consecutive ones can be merged into a single action.
+ */
+const MergeableMovementActionNames: Array<IVirtualEditorAction["name"]> = [
+  "editor-arrow-up",
+  "editor-arrow-down",
+  "editor-arrow-left",
+  "editor-arrow-right",
+  "editor-shift+arrow-up",
+  "editor-shift+arrow-down",
+  "editor-shift+arrow-left",
+  "editor-shift+arrow-right",
+  "editor-option-arrow-left",
+  "editor-option-arrow-right",
+  "editor-shift+option-arrow-left",
+  "editor-shift+option-arrow-right",
+];
+
+/**
+ * The arrow movements which cancel each other out, by their opposite movement.
+ */
+const OppositeArrowActionNames: Partial<Record<IVirtualEditorAction["name"], IVirtualEditorAction["name"]>> = {
+  "editor-arrow-up": "editor-arrow-down",
+  "editor-arrow-down": "editor-arrow-up",
+  "editor-arrow-left": "editor-arrow-right",
+  "editor-arrow-right": "editor-arrow-left",
+};
+
+/**
+ * What the optimizer knows about the virtual editor before or after an action, with a PHYSICAL caret position.
+ */
+interface IStepInfo {
+  step: number;
+  caretPosition: IEditorPosition;
+  hasHighlight: boolean;
+  cursorCount: number;
+}
+
+/**
+ * An action of the script being optimized, with the range of original actions it stands for and the replayed steps around it.
+ */
+interface IScriptItem {
+  action: IVirtualEditorAction;
+  from: number;
+  to: number;
+  before: IStepInfo;
+  after: IStepInfo;
+  issue?: IVirtualEditorValidationIssue;
+}
+
+/**
+ * A rewrite of the first count items of the script, from the one being looked at.
+ */
+interface IRewrite {
+  kind: ActionScriptDiagnosticKind;
+  count: number;
+  replacement: Array<IVirtualEditorAction>;
+  message: string;
+}
+
+// analyzes a script of actions applied to the initial code lines, returning its diagnostics and an optimized script which has the same state at every step it keeps
+export const optimizeActions = (
+  initialCodeLines: Array<string>,
+  actions: Array<IVirtualEditorAction>,
+  options?: Partial<IVirtualEditorOptions>
+): IActionScriptAnalysis => {
+  // rewrites which turn out to change the result are rejected one by one, from the last one before the first difference
+  const rejectedRewrites = new Set<string>();
+  for (;;) {
+    const { items, diagnostics } = rewriteScript(initialCodeLines, actions, options, rejectedRewrites);
+    const mismatchedStep = findMismatchedStep(initialCodeLines, actions, items, options);
+    if (mismatchedStep === -1) {
+      return {
+        actions: items.map((item) => item.action),
+        originalActionIndices: items.map((item) => item.to),
+        diagnostics,
+      };
+    }
+    const rewrites = diagnostics.filter((diagnostic) => diagnostic.replacement !== undefined);
+    const rejectedRewrite =
+      rewrites.filter((diagnostic) => diagnostic.actionIndex < mismatchedStep).pop() || rewrites[rewrites.length - 1];
+    rejectedRewrites.add(getRewriteKey(rejectedRewrite.kind, rejectedRewrite.actionIndex, rejectedRewrite.endActionIndex));
+  }
+};
+
+// Helper function to rewrite a script until none of the rewrites apply any more
+const rewriteScript = (
+  initialCodeLines: Array<string>,
+  actions: Array<IVirtualEditorAction>,
+  options: Partial<IVirtualEditorOptions> | undefined,
+  rejectedRewrites: Set<string>
+): { items: Array<IScriptItem>; diagnostics: Array<IActionScriptDiagnostic> } => {
+  let actionsToReplay = actions.map((action, index) => ({ action, from: index, to: index }));
+  let rewrites: Array<IActionScriptDiagnostic> = [];
+  let issues: Array<IVirtualEditorValidationIssue> | null = null;
+  let items: Array<IScriptItem> = [];
+  let hasChanged = true;
+
+  while (hasChanged) {
+    hasChanged = false;
+    const { editor, items: replayedItems } = replayScript(initialCodeLines, actionsToReplay, options);
+    // the issues of the original script become diagnostics of their own
+    issues = issues || editor.getValidationIssues();
+
+    items = [];
+    let index = 0;
+    while (index < replayedItems.length) {
+      const item = replayedItems[index];
+      const nextItem = replayedItems[index + 1];
+      const rewrite = findRewrites(editor, item, nextItem).find(
+        (candidate) =>
+          !rejectedRewrites.has(getRewriteKey(candidate.kind, item.from, replayedItems[index + candidate.count - 1].to))
+      );
+      if (!rewrite) {
+        items.push(item);
+        index++;
+        continue;
+      }
+
+      // the replacement takes the place of the rewritten items, so it can be rewritten again along with the next item
+      const lastItem = replayedItems[index + rewrite.count - 1];
+      const replacementItems = rewrite.replacement.map((action) => ({
+        action,
+        from: item.from,
+        to: lastItem.to,
+        before: item.before,
+        after: lastItem.after,
+      }));
+      replayedItems.splice(index, rewrite.count, ...replacementItems);
+      // a rewrite of what earlier rewrites left replaces them, so the diagnostics describe the optimized script range by range
+      rewrites = rewrites.filter(
+        (diagnostic) => diagnostic.actionIndex < item.from || diagnostic.endActionIndex > lastItem.to
+      );
+      rewrites.push({
+        kind: rewrite.kind,
+        message: `codevideo-virtual-editor: ${rewrite.message}`,
+        actionIndex: item.from,
+        endActionIndex: lastItem.to,
+        replacement: rewrite.replacement,
+      });
+      hasChanged = true;
+    }
+    actionsToReplay = items;
+  }
+
+  // issues which a rewrite resolved are left out, as are the actions of other parts of a course, which the virtual editor doesn't recognize
+  const diagnostics: Array<IActionScriptDiagnostic> = (issues || [])
+    .filter((issue) => issue.kind !== "unrecognized-action" || isEditorAction(issue.action as IAction))
+    .map((issue) => ({
+      kind: issue.kind,
+      message: issue.message,
+      actionIndex: issue.actionIndex - 1,
+      endActionIndex: issue.actionIndex - 1,
+    }))
+    .filter(
+      (issue) =>
+        !rewrites.some((diagnostic) => diagnostic.actionIndex <= issue.actionIndex && diagnostic.endActionIndex >= issue.actionIndex)
+    );
+  diagnostics.push(...rewrites);
+  diagnostics.sort((a, b) => a.actionIndex - b.actionIndex || a.endActionIndex - b.endActionIndex);
+  return { items, diagnostics };
+};
+
+// Helper function to apply a script to a linting virtual editor, keeping the steps around every action
+const replayScript = (
+  initialCodeLines: Array<string>,
+  actions: Array<{ action: IVirtualEditorAction; from: number; to: number }>,
+  options: Partial<IVirtualEditorOptions> | undefined
+): { editor: VirtualEditor; items: Array<IScriptItem> } => {
+  const editor = new VirtualEditor(initialCodeLines, [], false, { ...options, validation: "lint" });
+  let before = getStepInfo(editor, 0);
+  const items = actions.map(({ action, from, to }, index) => {
+    editor.applyAction(action);
+    const after = getStepInfo(editor, index + 1);
+    const item: IScriptItem = { action, from, to, before, after };
+    before = after;
+    return item;
+  });
+
+  // the step of an action is its index in getActionsApplied, which starts with the initial code
+  editor.getValidationIssues().forEach((issue) => {
+    items[issue.actionIndex - 1].issue = issue;
+  });
+  return { editor, items };
+};
+
+// Helper function to get what the optimizer needs to know about the current state of a virtual editor
+const getStepInfo = (editor: VirtualEditor, step: number): IStepInfo => {
+  return {
+    step,
+    caretPosition: editor.getCurrentCaretPosition(),
+    hasHighlight: editor.getCurrentHighlightCoordinates() !== null,
+    cursorCount: editor.getCurrentCursors().length,
+  };
+};
+
+// Helper function to find the rewrites of an item (and maybe the next one), the preferred one first
+const findRewrites = (editor: VirtualEditor, item: IScriptItem, nextItem: IScriptItem | undefined): Array<IRewrite> => {
+  const { name, value } = item.action;
+  const rewrites: Array<IRewrite> = [];
+
+  if (item.issue && MovementActionNames.includes(name)) {
+    const effectiveRepeatCount = item.issue.effectiveRepeatCount;
+    if (item.issue.kind === "no-op-action" || effectiveRepeatCount === 0) {
+      rewrites.push({ kind: "dropped-move", count: 1, replacement: [], message: `${name} with value '${value}' has no effect.` });
+    } else if (item.issue.kind === "out-of-range-movement" && effectiveRepeatCount !== undefined) {
+      rewrites.push({
+        kind: "trimmed-move",
+        count: 1,
+        replacement: [{ name, value: effectiveRepeatCount.toString() }],
+        message: `${name} is repeated ${value} times, but only ${effectiveRepeatCount} of them have an effect.`,
+      });
+    }
+  }
+
+  // the other rewrites only combine actions which the virtual editor applies as they are
+  if (!nextItem || item.issue || nextItem.issue) {
+    return rewrites;
+  }
+  const nextName = nextItem.action.name;
+  const nextValue = nextItem.action.value;
+
+  if (name === nextName && MergeableMovementActionNames.includes(name)) {
+    const mergedValue = (parseInt(value) + parseInt(nextValue)).toString();
+    rewrites.push({
+      kind: "merged-moves",
+      count: 2,
+      replacement: [{ name, value: mergedValue }],
+      message: `Consecutive ${name} actions are merged into one with value '${mergedValue}'.`,
+    });
+  }
+
+  // without a highlight to collapse, opposing arrows are the difference between them - as long as the caret doesn't wrap to another line
+  const isVertical = name === "editor-arrow-up" || name === "editor-arrow-down";
+  if (
+    OppositeArrowActionNames[name] === nextName &&
+    !item.before.hasHighlight &&
+    item.before.cursorCount === 1 &&
+    (isVertical ||
+      (item.before.caretPosition.row === item.after.caretPosition.row &&
+        item.after.caretPosition.row === nextItem.after.caretPosition.row))
+  ) {
+    const remainingRepeats = parseInt(nextValue) - parseInt(value);
+    const isCaretBack =
+      item.before.caretPosition.row === nextItem.after.caretPosition.row &&
+      item.before.caretPosition.col === nextItem.after.caretPosition.col;
+    if (remainingRepeats === 0 && isCaretBack) {
+      rewrites.push({ kind: "cancelled-moves", count: 2, replacement: [], message: `${name} and ${nextName} cancel each other out.` });
+    } else if (remainingRepeats !== 0) {
+      const remainingName = remainingRepeats > 0 ? nextName : name;
+      const remainingValue = Math.abs(remainingRepeats).toString();
+      rewrites.push({
+        kind: "cancelled-moves",
+        count: 2,
+        replacement: [{ name: remainingName, value: remainingValue }],
+        message: `${name} and ${nextName} partly cancel each other out, leaving ${remainingName} with value '${remainingValue}'.`,
+      });
+    }
+  }
+
+  if (name === "editor-type" && nextName === "editor-backspace") {
+    const replacement = getRemainderOfErasedTyping(editor, item, nextItem);
+    if (replacement) {
+      rewrites.push({
+        kind: "erased-typing",
+        count: 2,
+        replacement,
+        message: `editor-type with value '${value}' is erased by editor-backspace with value '${nextValue}'.`,
+      });
+    }
+  }
+  return rewrites;
+};
+
+// Helper function to get the actions leaving the same code as typing followed by backspaces which erase the typed text (and maybe more), null if the backspaces do anything else
+const getRemainderOfErasedTyping = (
+  editor: VirtualEditor,
+  typeItem: IScriptItem,
+  backspaceItem: IScriptItem
+): Array<IVirtualEditorAction> | null => {
+  if (typeItem.before.hasHighlight || typeItem.before.cursorCount > 1) {
+    return null;
+  }
+  const typedText = typeItem.action.value;
+  const backspaceCount = parseInt(backspaceItem.action.value);
+  const linesBefore = editor.getCodeLinesAtActionIndex(typeItem.before.step);
+  const codeBefore = linesBefore.join("\n");
+  const caretOffset = getOffsetAt(linesBefore, typeItem.before.caretPosition);
+
+  let replacement: Array<IVirtualEditorAction>;
+  let expectedCode: string;
+  let expectedCaretOffset: number;
+  if (backspaceCount <= typedText.length) {
+    const remainingText = typedText.substring(0, typedText.length - backspaceCount);
+    replacement = remainingText === "" ? [] : [{ name: "editor-type", value: remainingText }];
+    expectedCode = codeBefore.substring(0, caretOffset) + remainingText + codeBefore.substring(caretOffset);
+    expectedCaretOffset = caretOffset + remainingText.length;
+  } else {
+    const remainingBackspaceCount = backspaceCount - typedText.length;
+    replacement = [{ name: "editor-backspace", value: remainingBackspaceCount.toString() }];
+    expectedCode = codeBefore.substring(0, caretOffset - remainingBackspaceCount) + codeBefore.substring(caretOffset);
+    expectedCaretOffset = caretOffset - remainingBackspaceCount;
+  }
+
+  // auto closing, auto indentation and the like insert more than the typed text, in which case the code won't match
+  const linesAfter = editor.getCodeLinesAtActionIndex(backspaceItem.after.step);
+  if (
+    backspaceItem.after.hasHighlight ||
+    linesAfter.join("\n") !== expectedCode ||
+    getOffsetAt(linesAfter, backspaceItem.after.caretPosition) !== expectedCaretOffset
+  ) {
+    return null;
+  }
+  return replacement;
+};
+
+// Helper function to get the offset of a PHYSICAL position in the lines joined by '\n'
+const getOffsetAt = (lines: Array<string>, position: IEditorPosition): number => {
+  let offset = position.col - 1;
+  for (let row = 0; row < position.row - 1; row++) {
+    offset += lines[row].length + 1;
+  }
+  return offset;
+};
+
+// Helper function to identify a rewrite by its kind and the range of original actions it covers
+const getRewriteKey = (kind: ActionScriptDiagnosticKind, from: number, to: number): string => {
+  return `${kind}:${from}:${to}`;
+};
+
+// Helper function to find the first step of the original script whose state the optimized script doesn't have, -1 if every step it keeps is the same
+const findMismatchedStep = (
+  initialCodeLines: Array<string>,
+  actions: Array<IVirtualEditorAction>,
+  items: Array<IScriptItem>,
+  options: Partial<IVirtualEditorOptions> | undefined
+): number => {
+  const replayOptions: Partial<IVirtualEditorOptions> = { ...options, validation: "off" };
+  const original = new VirtualEditor(initialCodeLines, actions, false, replayOptions);
+  const optimized = new VirtualEditor(
+    initialCodeLines,
+    items.map((item) => item.action),
+    false,
+    replayOptions
+  );
+  const originalCodeAfterEachStep = original.getCodeAfterEachStep();
+  const optimizedCodeAfterEachStep = optimized.getCodeAfterEachStep();
+
+  for (let step = 0; step <= items.length; step++) {
+    // removed actions change nothing, so the step after the previous kept action and the step before the next one are both the same as the optimized step
+    const originalSteps = [step === 0 ? 0 : items[step - 1].to + 1, step === items.length ? actions.length : items[step].from];
+    const mismatchedStep = originalSteps.find(
+      (originalStep) =>
+        originalCodeAfterEachStep[originalStep] !== optimizedCodeAfterEachStep[step] ||
+        getComparableState(original, originalStep) !== getComparableState(optimized, step)
+    );
+    if (mismatchedStep !== undefined) {
+      return mismatchedStep;
+    }
+  }
+  return -1;
+};
+
+// Helper function to describe the state of a step without the action which led to it
+const getComparableState = (editor: VirtualEditor, step: number): string => {
+  const { action, code, ...state } = editor.getStateAtActionIndex(step);
+  return JSON.stringify(state);
+};
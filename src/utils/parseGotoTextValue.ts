@@ -0,0 +1,36 @@
+import { advancedCommandValueSeparator } from "@fullstackcraftllc/codevideo-types";
+
+/**
+ * The parsed value of the editor-goto-text and editor-select-text actions.
+ */
+export interface IGotoTextValue {
+  query: string;
+  isRegex: boolean;
+  isCaseSensitive: boolean;
+  occurrence: number;
+}
+
+// parses 'text' or 'text_____occurrence', where the text can be a regular expression written as /pattern/flags (only the 'i' flag changes anything) and a negative occurrence counts from the end
+export const parseGotoTextValue = (value: string): IGotoTextValue => {
+  let query = value;
+  let occurrence = 1;
+  const separatorIndex = value.lastIndexOf(advancedCommandValueSeparator);
+  if (separatorIndex !== -1) {
+    const parsedOccurrence = parseInt(value.substring(separatorIndex + advancedCommandValueSeparator.length));
+    if (!isNaN(parsedOccurrence)) {
+      query = value.substring(0, separatorIndex);
+      occurrence = parsedOccurrence;
+    }
+  }
+
+  const regexLiteral = query.match(/^\/([\s\S]+)\/([a-z]*)$/);
+  if (regexLiteral) {
+    return {
+      query: regexLiteral[1],
+      isRegex: true,
+      isCaseSensitive: !regexLiteral[2].includes("i"),
+      occurrence,
+    };
+  }
+  return { query, isRegex: false, isCaseSensitive: true, occurrence };
+};
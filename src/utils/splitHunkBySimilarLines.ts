@@ -0,0 +1,57 @@
+import { ILineDiffHunk } from "../types/ILineDiffHunk";
+import { getCommonAffixLengths } from "./getCommonAffixLengths";
+
+/**
+ * The most pairs of lines compared to find the similar lines of a hunk, beyond which the hunk is kept as a whole.
+ */
+const MaxComparedLinePairs = 250000;
+
+// splits a hunk into the pairs of lines which are similar enough to be a changed line rather than a replaced one (each pair being a hunk of its own), and the hunks of the lines in between them
+export const splitHunkBySimilarLines = (
+  oldLines: Array<string>,
+  newLines: Array<string>,
+  hunk: ILineDiffHunk
+): Array<ILineDiffHunk> => {
+  const { oldStart, oldCount, newStart, newCount } = hunk;
+  if (oldCount === 0 || newCount === 0 || oldCount * newCount > MaxComparedLinePairs) {
+    return [hunk];
+  }
+
+  // the longest list of similar line pairs, in order: pairCounts[i][j] is the number of pairs in the old lines from i and the new lines from j
+  const isSimilar = (i: number, j: number) => isSimilarLine(oldLines[oldStart + i], newLines[newStart + j]);
+  const pairCounts = Array.from({ length: oldCount + 1 }, () => new Array<number>(newCount + 1).fill(0));
+  for (let i = oldCount - 1; i >= 0; i--) {
+    for (let j = newCount - 1; j >= 0; j--) {
+      pairCounts[i][j] = isSimilar(i, j) ? pairCounts[i + 1][j + 1] + 1 : Math.max(pairCounts[i + 1][j], pairCounts[i][j + 1]);
+    }
+  }
+
+  const hunks: Array<ILineDiffHunk> = [];
+  const pushHunk = (i: number, j: number, oldEnd: number, newEnd: number) => {
+    if (oldEnd > i || newEnd > j) {
+      hunks.push({ oldStart: oldStart + i, oldCount: oldEnd - i, newStart: newStart + j, newCount: newEnd - j });
+    }
+  };
+  let [i, j, unpairedOld, unpairedNew] = [0, 0, 0, 0];
+  while (i < oldCount && j < newCount) {
+    if (isSimilar(i, j) && pairCounts[i][j] === pairCounts[i + 1][j + 1] + 1) {
+      pushHunk(unpairedOld, unpairedNew, i, j);
+      pushHunk(i, j, i + 1, j + 1);
+      i++;
+      j++;
+      [unpairedOld, unpairedNew] = [i, j];
+    } else if (pairCounts[i + 1][j] >= pairCounts[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  pushHunk(unpairedOld, unpairedNew, oldCount, newCount);
+  return hunks;
+};
+
+// Helper function to check if a line is changed rather than replaced by another line: the text it keeps at its start and end is at least half of it
+const isSimilarLine = (oldLine: string, newLine: string): boolean => {
+  const { prefixLength, suffixLength } = getCommonAffixLengths(oldLine, newLine);
+  return (prefixLength + suffixLength) * 2 >= Math.max(oldLine.length, newLine.length);
+};